@@ -5,6 +5,7 @@ import { logger, morganMiddleware } from './utils/logger.js';
 import { schedulerService } from './schedulers/scheduler.js';
 import routes from './routes/routes.js';
 import webhooks from './routes/webhooks.js';
+import { getAudioOutputDir } from './providers/tts/index.js';
 
 // Load environment variables
 dotenv.config();
@@ -13,7 +14,13 @@ const app = express();
 const PORT = process.env.PORT || 3000;
 
 // Middleware
-app.use(express.json({ limit: '10mb' }));
+app.use(express.json({
+  limit: '10mb',
+  // Keep the exact bytes for webhook signature verification
+  verify: (req: express.Request, res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 app.use(morganMiddleware);
 
@@ -32,6 +39,9 @@ app.get('/noais/health', (req, res) => {
 app.use('/noais/api', routes);
 app.use('/noais/webhooks', webhooks);
 
+// Audio written by the local/http TTS providers
+app.use('/noais/audio', express.static(getAudioOutputDir()));
+
 // Error handling middleware
 app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
   logger.error('Unhandled error:', err);
@@ -99,6 +109,10 @@ async function startApp() {
   try {
     // Connect to database
     await connectDb();
+
+    // Re-apply pauses and schedules saved through the admin API, then follow changes made through other instances
+    await schedulerService.applySavedSettings();
+    schedulerService.watchSavedSettings();
     
     // Start the scheduler
     //schedulerService.start();
@@ -112,8 +126,9 @@ async function startApp() {
       logger.info(`Environment: ${process.env.NODE_ENV || 'development'}`);
       
       // Log scheduler status
-      const schedulerStatus = schedulerService.getStatus();
-      logger.info(`📅 Scheduler status:`, schedulerStatus);
+      schedulerService.getStatus()
+        .then(schedulerStatus => logger.info(`📅 Scheduler status:`, schedulerStatus))
+        .catch(error => logger.error('Failed to read scheduler status:', error));
     });
     
   } catch (error) {
@@ -0,0 +1,310 @@
+import { Request, Response } from 'express';
+import BatchTracker from '../models/batchTracker';
+import AiSummaries from '../models/aiSummarries';
+import AudioGenerationRetry from '../models/audioGenerationRetry';
+import { batchItemService } from '../services/batchItemService';
+import { batchStateMachine } from '../services/batchStateMachine';
+import { batchTimeoutService } from '../services/batchTimeoutService';
+import { audioGenerationService } from '../services/audioGenerationService';
+import { logger } from '../utils/logger';
+import { BatchParams, CancelBatchBody, ListBatchesQuery } from '../validation/schemas';
+
+export class BatchController {
+
+    /**
+     * List batches with optional status/date filters and pagination
+     */
+    async listBatches(req: Request, res: Response): Promise<void> {
+        try {
+            const { page, limit, status, from, to } = req.validated.query as ListBatchesQuery;
+            const filter: any = {};
+
+            if (status) {
+                filter.status = { $in: status };
+            }
+            if (from || to) {
+                filter.createdAt = {
+                    ...(from && { $gte: from }),
+                    ...(to && { $lte: to })
+                };
+            }
+
+            const [batches, total] = await Promise.all([
+                BatchTracker.find(filter)
+                    .sort({ createdAt: -1 })
+                    .skip((page - 1) * limit)
+                    .limit(limit)
+                    .lean(),
+                BatchTracker.countDocuments(filter)
+            ]);
+
+            res.status(200).json({
+                success: true,
+                data: {
+                    batches,
+                    pagination: {
+                        page,
+                        limit,
+                        total,
+                        totalPages: Math.ceil(total / limit)
+                    }
+                }
+            });
+
+        } catch (error) {
+            logger.error('Error listing batches:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to list batches',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    /**
+     * Batch counts and completion rates per status
+     */
+    async getBatchStatistics(req: Request, res: Response): Promise<void> {
+        try {
+            const stats = await batchTimeoutService.getBatchStatistics();
+
+            res.status(200).json({
+                success: true,
+                data: stats
+            });
+
+        } catch (error) {
+            logger.error('Error getting batch statistics:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to get batch statistics',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    /**
+     * One batch with its per-user items, summaries, audio state and event timeline
+     */
+    async getBatch(req: Request, res: Response): Promise<void> {
+        try {
+            const { batchId } = req.validated.params as BatchParams;
+
+            const batch = await BatchTracker.findOne({ batchId }).lean();
+            if (!batch) {
+                res.status(404).json({
+                    success: false,
+                    message: `Batch not found: ${batchId}`
+                });
+                return;
+            }
+
+            const [items, summaries, audioRetries, timeline, missing] = await Promise.all([
+                batchItemService.getItems(batchId),
+                AiSummaries.find({ batchId }).sort({ createdAt: 1 }).lean(),
+                AudioGenerationRetry.find({ batchId })
+                    .select('summaryId userId status retryCount maxRetries lastError lastAttemptAt nextRetryAt successAt finalFailureAt')
+                    .lean(),
+                batchStateMachine.getTimeline(batchId),
+                batchItemService.getMissingOutputs(batchId)
+            ]);
+
+            res.status(200).json({
+                success: true,
+                data: {
+                    batch,
+                    allowedTransitions: batchStateMachine.getAllowedTransitions(batch.status),
+                    items,
+                    summaries,
+                    audioRetries,
+                    missing,
+                    timeline
+                }
+            });
+
+        } catch (error) {
+            logger.error(`Error getting batch ${req.params.batchId}:`, error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to get batch',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    /**
+     * List users in a batch that are still missing a summary or audio
+     */
+    async getMissingOutputs(req: Request, res: Response): Promise<void> {
+        try {
+            const { batchId } = req.validated.params as BatchParams;
+
+            const batch = await BatchTracker.findOne({ batchId }).select('batchId status').lean();
+            if (!batch) {
+                res.status(404).json({
+                    success: false,
+                    message: `Batch not found: ${batchId}`
+                });
+                return;
+            }
+
+            const missing = await batchItemService.getMissingOutputs(batchId);
+
+            res.status(200).json({
+                success: true,
+                data: {
+                    ...missing,
+                    status: batch.status
+                }
+            });
+
+        } catch (error) {
+            logger.error(`Error getting missing outputs for batch ${req.params.batchId}:`, error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to get missing batch outputs',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    /**
+     * Cancel a batch that is still pending
+     */
+    async cancelBatch(req: Request, res: Response): Promise<void> {
+        try {
+            const { batchId } = req.validated.params as BatchParams;
+            const reason = (req.body as CancelBatchBody).reason || 'Cancelled via API';
+
+            const batch = await BatchTracker.findOne({ batchId }).select('status').lean();
+            if (!batch) {
+                res.status(404).json({
+                    success: false,
+                    message: `Batch not found: ${batchId}`
+                });
+                return;
+            }
+
+            if (batch.status !== 'pending') {
+                res.status(409).json({
+                    success: false,
+                    message: `Only pending batches can be cancelled (batch is ${batch.status})`
+                });
+                return;
+            }
+
+            const cancelled = await batchTimeoutService.cancelBatch(batchId, reason);
+            if (!cancelled) {
+                res.status(409).json({
+                    success: false,
+                    message: 'Batch changed status while cancelling, please retry'
+                });
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                message: 'Batch cancelled',
+                data: cancelled
+            });
+
+        } catch (error) {
+            logger.error(`Error cancelling batch ${req.params.batchId}:`, error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to cancel batch',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    /**
+     * Close a pending or partially complete batch now, as if it had timed out
+     */
+    async forceCompleteBatch(req: Request, res: Response): Promise<void> {
+        try {
+            const { batchId } = req.validated.params as BatchParams;
+
+            const batch = await BatchTracker.findOne({ batchId }).select('status').lean();
+            if (!batch) {
+                res.status(404).json({
+                    success: false,
+                    message: `Batch not found: ${batchId}`
+                });
+                return;
+            }
+
+            if (!['pending', 'partial_complete'].includes(batch.status)) {
+                res.status(409).json({
+                    success: false,
+                    message: `Only pending or partial_complete batches can be force-completed (batch is ${batch.status})`
+                });
+                return;
+            }
+
+            const updated = await batchTimeoutService.forceCompleteBatch(batchId);
+
+            res.status(200).json({
+                success: true,
+                message: 'Batch force-completed',
+                data: updated
+            });
+
+        } catch (error) {
+            logger.error(`Error force-completing batch ${req.params.batchId}:`, error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to force-complete batch',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    /**
+     * Queue audio again for the batch's summaries that have none and aren't in flight; sent by the next maintenance run
+     */
+    async retriggerAudio(req: Request, res: Response): Promise<void> {
+        try {
+            const { batchId } = req.validated.params as BatchParams;
+
+            const batch = await BatchTracker.findOne({ batchId }).select('status').lean();
+            if (!batch) {
+                res.status(404).json({
+                    success: false,
+                    message: `Batch not found: ${batchId}`
+                });
+                return;
+            }
+
+            if (['pending', 'partial_complete', 'failed'].includes(batch.status)) {
+                res.status(409).json({
+                    success: false,
+                    message: `Audio can't be re-triggered while the batch is ${batch.status}`
+                });
+                return;
+            }
+
+            const queued = await audioGenerationService.retriggerMissingAudio(batchId);
+
+            res.status(queued ? 202 : 200).json({
+                success: true,
+                message: queued ? 'Audio generation queued for retry' : 'No summaries need audio re-triggered',
+                data: {
+                    batchId,
+                    summariesQueued: queued
+                }
+            });
+
+        } catch (error) {
+            logger.error(`Error re-triggering audio for batch ${req.params.batchId}:`, error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to re-trigger audio',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+}
+
+// Export singleton instance
+export const batchController = new BatchController();
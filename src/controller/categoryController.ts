@@ -0,0 +1,245 @@
+import { Request, Response } from 'express';
+import Category from '../models/categories';
+import { categoryService } from '../services/categoryService';
+import { logger } from '../utils/logger';
+import { ListCategoriesQuery, CategoryParams, CreateCategoryBody, UpdateCategoryBody, MergeCategoryBody } from '../validation/schemas';
+
+export class CategoryController {
+
+    /**
+     * List categories, optionally only active or inactive ones
+     */
+    async listCategories(req: Request, res: Response): Promise<void> {
+        try {
+            const { isActive } = req.validated.query as ListCategoriesQuery;
+            const categories = await categoryService.listCategories(isActive);
+
+            res.status(200).json({
+                success: true,
+                data: categories
+            });
+
+        } catch (error) {
+            logger.error('Error listing categories:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to list categories',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    /**
+     * One category with how many articles, feeds and users reference it
+     */
+    async getCategory(req: Request, res: Response): Promise<void> {
+        try {
+            const { categoryId } = req.validated.params as CategoryParams;
+
+            const category = await Category.findById(categoryId).lean();
+            if (!category) {
+                res.status(404).json({
+                    success: false,
+                    message: `Category not found: ${categoryId}`
+                });
+                return;
+            }
+
+            const usage = await categoryService.getUsage(categoryId);
+
+            res.status(200).json({
+                success: true,
+                data: { ...category, usage }
+            });
+
+        } catch (error) {
+            logger.error(`Error getting category ${req.params.categoryId}:`, error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to get category',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    async createCategory(req: Request, res: Response): Promise<void> {
+        try {
+            const { name, isActive, maxAgeHours } = req.body as CreateCategoryBody;
+
+            if (await categoryService.findByName(name)) {
+                res.status(409).json({
+                    success: false,
+                    message: `A category named "${name}" already exists`
+                });
+                return;
+            }
+
+            const category = await categoryService.createCategory(name, isActive, maxAgeHours);
+
+            res.status(201).json({
+                success: true,
+                message: 'Category created',
+                data: category
+            });
+
+        } catch (error) {
+            logger.error('Error creating category:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to create category',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    /**
+     * Rename or (de)activate a category. Deactivating removes it from every user's preferences.
+     */
+    async updateCategory(req: Request, res: Response): Promise<void> {
+        try {
+            const { categoryId } = req.validated.params as CategoryParams;
+            const changes = req.body as UpdateCategoryBody;
+
+            if (changes.name && await categoryService.findByName(changes.name, categoryId)) {
+                res.status(409).json({
+                    success: false,
+                    message: `A category named "${changes.name}" already exists`
+                });
+                return;
+            }
+
+            const category = await categoryService.updateCategory(categoryId, changes);
+            if (!category) {
+                res.status(404).json({
+                    success: false,
+                    message: `Category not found: ${categoryId}`
+                });
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                message: 'Category updated',
+                data: category
+            });
+
+        } catch (error) {
+            logger.error(`Error updating category ${req.params.categoryId}:`, error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to update category',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    /**
+     * Delete a category that no article or feed uses; otherwise deactivate or merge it instead
+     */
+    async deleteCategory(req: Request, res: Response): Promise<void> {
+        try {
+            const { categoryId } = req.validated.params as CategoryParams;
+
+            const category = await Category.findById(categoryId).select('_id').lean();
+            if (!category) {
+                res.status(404).json({
+                    success: false,
+                    message: `Category not found: ${categoryId}`
+                });
+                return;
+            }
+
+            const usage = await categoryService.getUsage(categoryId);
+            if (usage.articleCount > 0 || usage.feedSourceCount > 0) {
+                res.status(409).json({
+                    success: false,
+                    message: `Category is used by ${usage.articleCount} articles and ${usage.feedSourceCount} feed sources; deactivate or merge it instead`,
+                    data: usage
+                });
+                return;
+            }
+
+            await categoryService.deleteCategory(categoryId);
+
+            res.status(200).json({
+                success: true,
+                message: 'Category deleted'
+            });
+
+        } catch (error) {
+            logger.error(`Error deleting category ${req.params.categoryId}:`, error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to delete category',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    /**
+     * Merge this category into another active category
+     */
+    async mergeCategory(req: Request, res: Response): Promise<void> {
+        try {
+            const { categoryId } = req.validated.params as CategoryParams;
+            const { targetCategoryId } = req.body as MergeCategoryBody;
+
+            if (categoryId === targetCategoryId) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Validation failed',
+                    errors: [{ field: 'targetCategoryId', location: 'body', message: 'Cannot merge a category into itself' }]
+                });
+                return;
+            }
+
+            const [source, target] = await Promise.all([
+                Category.findById(categoryId).select('isActive mergedInto').lean(),
+                Category.findById(targetCategoryId).select('isActive').lean()
+            ]);
+
+            if (!source || !target) {
+                res.status(404).json({
+                    success: false,
+                    message: `Category not found: ${!source ? categoryId : targetCategoryId}`
+                });
+                return;
+            }
+
+            if (source.mergedInto) {
+                res.status(409).json({
+                    success: false,
+                    message: `Category was already merged into ${source.mergedInto}`
+                });
+                return;
+            }
+
+            if (target.isActive === false) {
+                res.status(409).json({
+                    success: false,
+                    message: 'Target category is not active'
+                });
+                return;
+            }
+
+            const result = await categoryService.mergeCategories(categoryId, targetCategoryId);
+
+            res.status(200).json({
+                success: true,
+                message: 'Categories merged',
+                data: result
+            });
+
+        } catch (error) {
+            logger.error(`Error merging category ${req.params.categoryId}:`, error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to merge categories',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+}
+
+// Export singleton instance
+export const categoryController = new CategoryController();
@@ -0,0 +1,98 @@
+import { Request, Response } from 'express';
+import { deliveryScheduleService } from '../services/deliveryScheduleService';
+import { logger } from '../utils/logger';
+import { UserParams, DeliveryScheduleBody } from '../validation/schemas';
+
+export class DeliveryScheduleController {
+
+    /**
+     * A user's timezone, delivery slots and next scheduled delivery
+     */
+    async getSchedule(req: Request, res: Response): Promise<void> {
+        try {
+            const { userId } = req.validated.params as UserParams;
+
+            const schedule = await deliveryScheduleService.getSchedule(userId);
+            if (!schedule) {
+                res.status(404).json({
+                    success: false,
+                    message: `No delivery schedule found for user: ${userId}`
+                });
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                data: schedule
+            });
+
+        } catch (error) {
+            logger.error(`Error getting delivery schedule for user ${req.params.userId}:`, error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to get delivery schedule',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    /**
+     * Set a user's timezone and local delivery slots; their mixes then leave the global run
+     */
+    async replaceSchedule(req: Request, res: Response): Promise<void> {
+        try {
+            const { userId } = req.validated.params as UserParams;
+            const input = req.body as DeliveryScheduleBody;
+
+            const schedule = await deliveryScheduleService.saveSchedule(userId, input);
+
+            res.status(200).json({
+                success: true,
+                message: 'Delivery schedule saved',
+                data: schedule
+            });
+
+        } catch (error) {
+            logger.error(`Error saving delivery schedule for user ${req.params.userId}:`, error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to save delivery schedule',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    /**
+     * Remove a user's schedule, returning them to the global run
+     */
+    async deleteSchedule(req: Request, res: Response): Promise<void> {
+        try {
+            const { userId } = req.validated.params as UserParams;
+
+            const deleted = await deliveryScheduleService.deleteSchedule(userId);
+            if (!deleted) {
+                res.status(404).json({
+                    success: false,
+                    message: `No delivery schedule found for user: ${userId}`
+                });
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                message: 'Delivery schedule deleted'
+            });
+
+        } catch (error) {
+            logger.error(`Error deleting delivery schedule for user ${req.params.userId}:`, error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to delete delivery schedule',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+}
+
+// Export singleton instance
+export const deliveryScheduleController = new DeliveryScheduleController();
@@ -0,0 +1,80 @@
+import { Request, Response } from 'express';
+import { jobRunService } from '../services/jobRunService';
+import { logger } from '../utils/logger';
+import { ListJobRunsQuery, JobRunParams } from '../validation/schemas';
+
+export class JobRunController {
+
+    /**
+     * Scheduled job runs, newest first, with cursor pagination
+     */
+    async listJobRuns(req: Request, res: Response): Promise<void> {
+        try {
+            const { limit, cursor, job, status, trigger, from, to } = req.validated.query as ListJobRunsQuery;
+
+            const { runs, nextCursor } = await jobRunService.listRuns({
+                limit,
+                cursor,
+                jobs: job,
+                statuses: status,
+                trigger,
+                from,
+                to
+            });
+
+            res.status(200).json({
+                success: true,
+                data: {
+                    runs,
+                    pagination: {
+                        limit,
+                        nextCursor,
+                        hasMore: nextCursor !== null
+                    }
+                }
+            });
+
+        } catch (error) {
+            logger.error('Error listing job runs:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to list job runs',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    /**
+     * One job run with its counts, error and details
+     */
+    async getJobRun(req: Request, res: Response): Promise<void> {
+        try {
+            const { jobRunId } = req.validated.params as JobRunParams;
+
+            const run = await jobRunService.getRun(jobRunId);
+            if (!run) {
+                res.status(404).json({
+                    success: false,
+                    message: `Job run not found: ${jobRunId}`
+                });
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                data: run
+            });
+
+        } catch (error) {
+            logger.error(`Error getting job run ${req.params.jobRunId}:`, error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to get job run',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+}
+
+// Export singleton instance
+export const jobRunController = new JobRunController();
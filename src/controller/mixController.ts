@@ -0,0 +1,79 @@
+import { Request, Response } from 'express';
+import { userMixService } from '../services/userMixService';
+import { logger } from '../utils/logger';
+import { UserParams, ListUserMixesQuery, MixParams } from '../validation/schemas';
+
+export class MixController {
+
+    /**
+     * A user's playable mixes, newest first, with cursor pagination
+     */
+    async listUserMixes(req: Request, res: Response): Promise<void> {
+        try {
+            const { userId } = req.validated.params as UserParams;
+            const { limit, cursor, mixType, from, to } = req.validated.query as ListUserMixesQuery;
+
+            const { mixes, nextCursor } = await userMixService.listUserMixes(userId, {
+                limit,
+                cursor,
+                mixTypes: mixType,
+                from,
+                to
+            });
+
+            res.status(200).json({
+                success: true,
+                data: {
+                    mixes,
+                    pagination: {
+                        limit,
+                        nextCursor,
+                        hasMore: nextCursor !== null
+                    }
+                }
+            });
+
+        } catch (error) {
+            logger.error(`Error listing mixes for user ${req.params.userId}:`, error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to list user mixes',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    /**
+     * One mix with its summary text and audio
+     */
+    async getMix(req: Request, res: Response): Promise<void> {
+        try {
+            const { mixId } = req.validated.params as MixParams;
+
+            const mix = await userMixService.getMix(mixId);
+            if (!mix) {
+                res.status(404).json({
+                    success: false,
+                    message: `Mix not found: ${mixId}`
+                });
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                data: mix
+            });
+
+        } catch (error) {
+            logger.error(`Error getting mix ${req.params.mixId}:`, error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to get mix',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+}
+
+// Export singleton instance
+export const mixController = new MixController();
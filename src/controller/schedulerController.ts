@@ -0,0 +1,100 @@
+import { Request, Response } from 'express';
+import { schedulerService } from '../schedulers/scheduler.js';
+import { logger } from '../utils/logger.js';
+import { SCHEDULER_TASKS } from '../models/schedulerTaskSetting.js';
+import { ListSchedulerTasksQuery, SchedulerTaskParams, RescheduleSchedulerTaskBody } from '../validation/schemas.js';
+
+export class SchedulerController {
+
+    /**
+     * Every scheduled task with its pattern, pause state and next run times
+     */
+    async listTasks(req: Request, res: Response): Promise<void> {
+        try {
+            const { count } = req.validated.query as ListSchedulerTasksQuery;
+
+            res.status(200).json({
+                success: true,
+                data: SCHEDULER_TASKS.map(task => schedulerService.getTaskStatus(task, count))
+            });
+
+        } catch (error) {
+            logger.error('Error listing scheduler tasks:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to list scheduler tasks',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    async pauseTask(req: Request, res: Response): Promise<void> {
+        try {
+            const { task } = req.validated.params as SchedulerTaskParams;
+            const status = await schedulerService.pauseTask(task);
+
+            res.status(200).json({
+                success: true,
+                message: `Paused ${task}`,
+                data: status
+            });
+
+        } catch (error) {
+            logger.error(`Error pausing scheduler task ${req.params.task}:`, error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to pause scheduler task',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    async resumeTask(req: Request, res: Response): Promise<void> {
+        try {
+            const { task } = req.validated.params as SchedulerTaskParams;
+            const status = await schedulerService.resumeTask(task);
+
+            res.status(200).json({
+                success: true,
+                message: `Resumed ${task}`,
+                data: status
+            });
+
+        } catch (error) {
+            logger.error(`Error resuming scheduler task ${req.params.task}:`, error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to resume scheduler task',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    /**
+     * Replace a task's cron pattern; the change is saved and survives a restart
+     */
+    async rescheduleTask(req: Request, res: Response): Promise<void> {
+        try {
+            const { task } = req.validated.params as SchedulerTaskParams;
+            const { cronPattern } = req.validated.body as RescheduleSchedulerTaskBody;
+            const status = await schedulerService.rescheduleTask(task, cronPattern);
+
+            res.status(200).json({
+                success: true,
+                message: `Rescheduled ${task}`,
+                data: status
+            });
+
+        } catch (error) {
+            logger.error(`Error rescheduling scheduler task ${req.params.task}:`, error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to reschedule scheduler task',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+}
+
+// Export singleton instance
+export const schedulerController = new SchedulerController();
@@ -4,6 +4,10 @@ import { schedulerService } from '../schedulers/scheduler.js';
 import { logger } from '../utils/logger.js';
 import fs from 'fs';
 import { audioGenerationService } from '../services/audioGenerationService.js';
+import { listeningHistoryService } from '../services/listeningHistoryService.js';
+import { articleBudgetService } from '../services/articleBudgetService.js';
+import { summaryCacheService } from '../services/summaryCacheService.js';
+import { UserParams, GenerateUserSummaryBody, GenerateTtsBody } from '../validation/schemas.js';
 
 export class SummarizerController {
     
@@ -14,17 +18,16 @@ export class SummarizerController {
         try {
             logger.info('Manual summary generation triggered via API');
             
-            const summaries = await summaryService.generateSummariesForAllUsers();
-            
-            if (summaries.length > 0) {
-                await summaryService.sendSummariesToService(summaries);
-            }
+            const { summaries, failed } = await summaryService.generateSummariesForAllUsers();
+            const sendFailures = summaries.length > 0 ? await summaryService.sendSummariesToService(summaries) : 0;
             
             res.status(200).json({
                 success: true,
                 message: 'Summary generation completed',
                 data: {
                     summariesGenerated: summaries.length,
+                    generationFailures: failed,
+                    sendFailures,
                     timestamp: new Date().toISOString()
                 }
             });
@@ -44,7 +47,7 @@ export class SummarizerController {
      */
     async getSchedulerStatus(req: Request, res: Response): Promise<void> {
         try {
-            const status = schedulerService.getStatus();
+            const status = await schedulerService.getStatus();
             
             res.status(200).json({
                 success: true,
@@ -52,6 +55,7 @@ export class SummarizerController {
                     scheduler: status,
                     environment: {
                         maxArticlesCount: process.env.MAX_ARTICLES_COUNT || '5',
+                        summaryMode: process.env.SUMMARY_MODE || 'user',
                         cronSchedule: process.env.SUMMARY_CRON_SCHEDULE || '0 */6 * * *',
                         summaryServiceUrl: process.env.SUMMARY_SERVICE_URL || 'http://localhost:3001/api/summaries',
                         runOnStart: process.env.RUN_SUMMARY_ON_START || 'false'
@@ -100,15 +104,7 @@ export class SummarizerController {
      */
     async getUserSummary(req: Request, res: Response): Promise<void> {
         try {
-            const { userId } = req.params;
-            
-            if (!userId) {
-                res.status(400).json({
-                    success: false,
-                    message: 'User ID is required'
-                });
-                return;
-            }
+            const { userId } = req.validated.params as UserParams;
             
             const articles = await summaryService.getArticlesForUser(userId);
             
@@ -133,19 +129,57 @@ export class SummarizerController {
     }
     
     /**
-     * Generate summary for a specific user
+     * Explain a user's article selection: every candidate with its score breakdown and whether it was picked
      */
-    async generateUserSummary(req: Request, res: Response): Promise<void> {
+    async getUserSelectionDebug(req: Request, res: Response): Promise<void> {
         try {
-            const { userId } = req.params;
-            const { batchId } = req.body;
-            if (!userId) {
-                res.status(400).json({
+            const { userId } = req.validated.params as UserParams;
+
+            const selection = await summaryService.buildSelectionForUser(userId);
+            if (!selection) {
+                res.status(404).json({
                     success: false,
-                    message: 'User ID is required'
+                    message: 'User has no active category preferences'
                 });
                 return;
             }
+
+            res.status(200).json({
+                success: true,
+                data: {
+                    ...selection,
+                    categories: selection.categories.map(category => ({
+                        ...category,
+                        candidates: category.candidates.map(({ article, ...ranking }) => ({
+                            articleId: article._id,
+                            title: article.title,
+                            source: article.source,
+                            publishedAt: article.publishedAt,
+                            storyClusterId: article.storyClusterId,
+                            clusterSize: article.clusterSize,
+                            ...ranking
+                        }))
+                    }))
+                }
+            });
+
+        } catch (error) {
+            logger.error(`Error explaining article selection for ${req.params.userId}:`, error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to explain article selection',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+    
+    /**
+     * Generate summary for a specific user
+     */
+    async generateUserSummary(req: Request, res: Response): Promise<void> {
+        try {
+            const { userId } = req.validated.params as UserParams;
+            const { batchId } = req.body as GenerateUserSummaryBody;
             
             const summary = await summaryService.generateSummaryForUser(userId,batchId);
             fs.writeFileSync('summary.json', JSON.stringify(summary, null, 2));
@@ -176,9 +210,15 @@ export class SummarizerController {
 
     async generateTTS(req: Request, res: Response): Promise<void> {
         try {
-            const { summaryId } = req.body;
+            const { summaryId } = req.body as GenerateTtsBody;
             const summary = await summaryService.getSummaryById(summaryId);
-            console.log(summary);
+            if (!summary) {
+                res.status(404).json({
+                    success: false,
+                    message: `Summary not found: ${summaryId}`
+                });
+                return;
+            }
             let data = await audioGenerationService.sendIndividualSummaryForAudio(summary, summary.batchId);
             console.log(data);
             res.status(200).json({
@@ -200,7 +240,8 @@ export class SummarizerController {
      */
     async getServiceStatus(req: Request, res: Response): Promise<void> {
         try {
-            const schedulerStatus = schedulerService.getStatus();
+            const schedulerStatus = await schedulerService.getStatus();
+            const summaryCache = await summaryCacheService.getStats();
             
             res.status(200).json({
                 success: true,
@@ -213,10 +254,15 @@ export class SummarizerController {
                         timestamp: new Date().toISOString()
                     },
                     scheduler: schedulerStatus,
+                    summaryCache,
                     configuration: {
                         maxArticlesCount: parseInt(process.env.MAX_ARTICLES_COUNT || '5'),
                         cronSchedule: process.env.SUMMARY_CRON_SCHEDULE || '0 */6 * * *',
                         summaryServiceUrl: process.env.SUMMARY_SERVICE_URL || 'http://localhost:3001/api/summaries',
+                        summarizationProvider: summaryService.getSummarizationProviderName(),
+                        ttsProvider: audioGenerationService.getTtsProviderName(),
+                        historyExclusionHours: listeningHistoryService.getExclusionWindowHours(),
+                        summaryInputWordBudget: articleBudgetService.getWordBudget(),
                         runOnStart: process.env.RUN_SUMMARY_ON_START === 'true'
                     }
                 }
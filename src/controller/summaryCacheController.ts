@@ -0,0 +1,56 @@
+import { Request, Response } from 'express';
+import { summaryCacheService } from '../services/summaryCacheService';
+import { logger } from '../utils/logger';
+import { InvalidateSummaryCacheQuery } from '../validation/schemas';
+
+export class SummaryCacheController {
+
+    /**
+     * Hit/miss counts and live entry count
+     */
+    async getStats(req: Request, res: Response): Promise<void> {
+        try {
+            const stats = await summaryCacheService.getStats();
+
+            res.status(200).json({
+                success: true,
+                data: stats
+            });
+
+        } catch (error) {
+            logger.error('Error getting summary cache stats:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to get summary cache stats',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    /**
+     * Drop cached summaries by key, article or provider; clearing the whole cache takes all=true
+     */
+    async invalidate(req: Request, res: Response): Promise<void> {
+        try {
+            const criteria = req.validated.query as InvalidateSummaryCacheQuery;
+            const deleted = await summaryCacheService.invalidate(criteria);
+
+            res.status(200).json({
+                success: true,
+                message: 'Summary cache invalidated',
+                data: { deleted }
+            });
+
+        } catch (error) {
+            logger.error('Error invalidating summary cache:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to invalidate summary cache',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+}
+
+// Export singleton instance
+export const summaryCacheController = new SummaryCacheController();
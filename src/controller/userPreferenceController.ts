@@ -0,0 +1,183 @@
+import { Request, Response } from 'express';
+import { userPreferenceService, InvalidCategory } from '../services/userPreferenceService';
+import { logger } from '../utils/logger';
+import { UserParams, CategorySelectionBody, UserCategoryParams } from '../validation/schemas';
+
+/**
+ * Unknown or inactive categories are reported in the same shape as schema validation errors
+ */
+function sendInvalidCategories(res: Response, invalid: InvalidCategory[]): void {
+    res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: invalid.map(category => ({
+            field: `categories.${category.index}.categoryId`,
+            location: 'body',
+            message: `${category.message}: ${category.categoryId}`
+        }))
+    });
+}
+
+export class UserPreferenceController {
+
+    /**
+     * Get a user's preferred categories and weights
+     */
+    async getPreferences(req: Request, res: Response): Promise<void> {
+        try {
+            const { userId } = req.validated.params as UserParams;
+
+            const preferences = await userPreferenceService.getPreferences(userId);
+            if (!preferences) {
+                res.status(404).json({
+                    success: false,
+                    message: `No category preferences found for user: ${userId}`
+                });
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                data: preferences
+            });
+
+        } catch (error) {
+            logger.error(`Error getting preferences for user ${req.params.userId}:`, error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to get user preferences',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    /**
+     * Replace a user's preferred categories with the given list
+     */
+    async replacePreferences(req: Request, res: Response): Promise<void> {
+        try {
+            const { userId } = req.validated.params as UserParams;
+            const { categories } = req.body as CategorySelectionBody;
+
+            const invalid = await userPreferenceService.findInvalidCategories(categories);
+            if (invalid.length) {
+                sendInvalidCategories(res, invalid);
+                return;
+            }
+
+            const preferences = await userPreferenceService.replacePreferences(userId, categories);
+
+            res.status(200).json({
+                success: true,
+                message: 'User preferences replaced',
+                data: preferences
+            });
+
+        } catch (error) {
+            logger.error(`Error replacing preferences for user ${req.params.userId}:`, error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to replace user preferences',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    /**
+     * Add categories to a user's preferences, or update the weight of ones already there
+     */
+    async addPreferences(req: Request, res: Response): Promise<void> {
+        try {
+            const { userId } = req.validated.params as UserParams;
+            const { categories } = req.body as CategorySelectionBody;
+
+            const invalid = await userPreferenceService.findInvalidCategories(categories);
+            if (invalid.length) {
+                sendInvalidCategories(res, invalid);
+                return;
+            }
+
+            const preferences = await userPreferenceService.addCategories(userId, categories);
+
+            res.status(200).json({
+                success: true,
+                message: 'Categories added to user preferences',
+                data: preferences
+            });
+
+        } catch (error) {
+            logger.error(`Error adding preferences for user ${req.params.userId}:`, error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to add user preferences',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    /**
+     * Remove one category from a user's preferences
+     */
+    async removePreference(req: Request, res: Response): Promise<void> {
+        try {
+            const { userId, categoryId } = req.validated.params as UserCategoryParams;
+
+            const result = await userPreferenceService.removeCategory(userId, categoryId);
+            if (!result || !result.removed) {
+                res.status(404).json({
+                    success: false,
+                    message: `Category ${categoryId} is not in the preferences of user ${userId}`
+                });
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                message: 'Category removed from user preferences',
+                data: result.preferences
+            });
+
+        } catch (error) {
+            logger.error(`Error removing category ${req.params.categoryId} for user ${req.params.userId}:`, error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to remove user preference',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    /**
+     * Delete all of a user's preferences
+     */
+    async deletePreferences(req: Request, res: Response): Promise<void> {
+        try {
+            const { userId } = req.validated.params as UserParams;
+
+            const deleted = await userPreferenceService.deletePreferences(userId);
+            if (!deleted) {
+                res.status(404).json({
+                    success: false,
+                    message: `No category preferences found for user: ${userId}`
+                });
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                message: 'User preferences deleted'
+            });
+
+        } catch (error) {
+            logger.error(`Error deleting preferences for user ${req.params.userId}:`, error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to delete user preferences',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+}
+
+// Export singleton instance
+export const userPreferenceController = new UserPreferenceController();
@@ -1,12 +1,13 @@
 import { Request, Response } from 'express';
 import { webhookServices } from '../services/webhookServices';
 import { logger } from '../utils/logger';
+import { SummaryWebhookBody, SaveAudioUrlBody, AudioGenerationFailureBody } from '../validation/schemas';
 
 export class WebhookController {
     async handleSummaryWebhook(req: Request, res: Response) {
         console.log("--------------------------------handleSummaryWebhook--------------------------------");
         try {
-            const { summary, userId, summaryType, summaryTitle, batchId } = req.body;
+            const { summary, userId, summaryType, summaryTitle, batchId } = req.body as SummaryWebhookBody;
             const newSummary = await webhookServices.saveSummary(summary, userId, summaryType, summaryTitle, batchId);
             res.status(200).json({ message: 'Summary webhook received', newSummary });
         } catch (error) {
@@ -17,13 +18,7 @@ export class WebhookController {
 
     async handleSaveAudioUrl(req: Request, res: Response) {
         try {
-            const { audioUrl, userId, batchId, summaryId } = req.body;
-            
-            if (!audioUrl || !userId) {
-                return res.status(400).json({ 
-                    message: 'Missing required fields: audioUrl and userId are required' 
-                });
-            }
+            const { audioUrl, userId, batchId, summaryId } = req.body as SaveAudioUrlBody;
 
             // If summaryId is provided, handle individual summary audio generation
             if (summaryId) {
@@ -31,14 +26,9 @@ export class WebhookController {
                 res.status(200).json({ message: 'Summary audio generation completed successfully', result });
             } 
             // Fallback to batch-level handling for backward compatibility
-            else if (batchId) {
+            else {
                 const audioMix = await webhookServices.handleAudioGenerationSuccess(audioUrl, userId, batchId);
                 res.status(200).json({ message: 'Audio generation completed successfully', audioMix });
-            } 
-            else {
-                return res.status(400).json({ 
-                    message: 'Either summaryId or batchId must be provided' 
-                });
             }
         } catch (error) {
             logger.error(`Error in handleSaveAudioUrl: ${error}`);
@@ -52,15 +42,9 @@ export class WebhookController {
      */
     async handleAudioGenerationFailure(req: Request, res: Response) {
         try {
-            const { batchId, errorMessage, userId } = req.body;
-            
-            if (!batchId || !errorMessage || !userId) {
-                return res.status(400).json({ 
-                    message: 'Missing required fields: batchId, errorMessage, and userId are required' 
-                });
-            }
+            const { batchId, errorMessage, userId, summaryId } = req.body as AudioGenerationFailureBody;
 
-            await webhookServices.handleAudioGenerationFailure(batchId, errorMessage, userId);
+            await webhookServices.handleAudioGenerationFailure(batchId, errorMessage, userId, summaryId);
             res.status(200).json({ 
                 message: 'Audio generation failure processed successfully',
                 batchId 
@@ -0,0 +1,259 @@
+import { Request, Response } from 'express';
+import WebhookSubscription from '../models/webhookSubscription';
+import WebhookDelivery from '../models/webhookDelivery';
+import { outboundWebhookService } from '../services/outboundWebhookService';
+import { logger } from '../utils/logger';
+import {
+    CreateWebhookSubscriptionBody,
+    UpdateWebhookSubscriptionBody,
+    WebhookSubscriptionParams,
+    ListWebhookDeliveriesQuery,
+    RedeliverWebhookParams
+} from '../validation/schemas';
+
+export class WebhookSubscriptionController {
+
+    /**
+     * Register a client app endpoint. The signing secret is only ever returned here.
+     */
+    async createSubscription(req: Request, res: Response): Promise<void> {
+        try {
+            const body = req.body as CreateWebhookSubscriptionBody;
+            const secret = body.secret || outboundWebhookService.generateSecret();
+
+            const subscription = await WebhookSubscription.create({ ...body, secret });
+            logger.info(`Created webhook subscription ${subscription._id} for ${subscription.url} (${subscription.events.join(', ')})`);
+
+            res.status(201).json({
+                success: true,
+                message: 'Webhook subscription created',
+                data: {
+                    ...subscription.toObject(),
+                    secret
+                }
+            });
+
+        } catch (error) {
+            logger.error('Error creating webhook subscription:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to create webhook subscription',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    /**
+     * List all subscriptions (without secrets)
+     */
+    async listSubscriptions(req: Request, res: Response): Promise<void> {
+        try {
+            const subscriptions = await WebhookSubscription.find().sort({ createdAt: -1 }).lean();
+
+            res.status(200).json({
+                success: true,
+                data: subscriptions
+            });
+
+        } catch (error) {
+            logger.error('Error listing webhook subscriptions:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to list webhook subscriptions',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    /**
+     * One subscription with delivery counts per status
+     */
+    async getSubscription(req: Request, res: Response): Promise<void> {
+        try {
+            const { subscriptionId } = req.validated.params as WebhookSubscriptionParams;
+
+            const subscription = await WebhookSubscription.findById(subscriptionId).lean();
+            if (!subscription) {
+                res.status(404).json({
+                    success: false,
+                    message: `Webhook subscription not found: ${subscriptionId}`
+                });
+                return;
+            }
+
+            const grouped = await WebhookDelivery.aggregate([
+                { $match: { subscriptionId: subscription._id } },
+                { $group: { _id: '$status', count: { $sum: 1 } } }
+            ]);
+
+            res.status(200).json({
+                success: true,
+                data: {
+                    ...subscription,
+                    deliveryCounts: Object.fromEntries(grouped.map(group => [group._id, group.count]))
+                }
+            });
+
+        } catch (error) {
+            logger.error(`Error getting webhook subscription ${req.params.subscriptionId}:`, error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to get webhook subscription',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    /**
+     * Change URL, events, active flag or rotate the secret
+     */
+    async updateSubscription(req: Request, res: Response): Promise<void> {
+        try {
+            const { subscriptionId } = req.validated.params as WebhookSubscriptionParams;
+            const body = req.body as UpdateWebhookSubscriptionBody;
+
+            const subscription = await WebhookSubscription.findByIdAndUpdate(subscriptionId, body, { new: true }).lean();
+            if (!subscription) {
+                res.status(404).json({
+                    success: false,
+                    message: `Webhook subscription not found: ${subscriptionId}`
+                });
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                message: 'Webhook subscription updated',
+                data: subscription
+            });
+
+        } catch (error) {
+            logger.error(`Error updating webhook subscription ${req.params.subscriptionId}:`, error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to update webhook subscription',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    /**
+     * Remove a subscription; queued deliveries for it fail on their next attempt
+     */
+    async deleteSubscription(req: Request, res: Response): Promise<void> {
+        try {
+            const { subscriptionId } = req.validated.params as WebhookSubscriptionParams;
+
+            const subscription = await WebhookSubscription.findByIdAndDelete(subscriptionId).lean();
+            if (!subscription) {
+                res.status(404).json({
+                    success: false,
+                    message: `Webhook subscription not found: ${subscriptionId}`
+                });
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                message: 'Webhook subscription deleted'
+            });
+
+        } catch (error) {
+            logger.error(`Error deleting webhook subscription ${req.params.subscriptionId}:`, error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to delete webhook subscription',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    /**
+     * Delivery log for a subscription, newest first
+     */
+    async listDeliveries(req: Request, res: Response): Promise<void> {
+        try {
+            const { subscriptionId } = req.validated.params as WebhookSubscriptionParams;
+            const { page, limit, status, event } = req.validated.query as ListWebhookDeliveriesQuery;
+
+            const filter: any = { subscriptionId };
+            if (status) filter.status = status;
+            if (event) filter.event = event;
+
+            const [deliveries, total] = await Promise.all([
+                WebhookDelivery.find(filter)
+                    .sort({ createdAt: -1 })
+                    .skip((page - 1) * limit)
+                    .limit(limit)
+                    .lean(),
+                WebhookDelivery.countDocuments(filter)
+            ]);
+
+            res.status(200).json({
+                success: true,
+                data: {
+                    deliveries,
+                    pagination: {
+                        page,
+                        limit,
+                        total,
+                        totalPages: Math.ceil(total / limit)
+                    }
+                }
+            });
+
+        } catch (error) {
+            logger.error(`Error listing deliveries for webhook subscription ${req.params.subscriptionId}:`, error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to list webhook deliveries',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    /**
+     * Send a delivered or failed delivery again
+     */
+    async redeliver(req: Request, res: Response): Promise<void> {
+        try {
+            const { deliveryId } = req.validated.params as RedeliverWebhookParams;
+
+            const existing = await WebhookDelivery.findById(deliveryId).select('status').lean();
+            if (!existing) {
+                res.status(404).json({
+                    success: false,
+                    message: `Webhook delivery not found: ${deliveryId}`
+                });
+                return;
+            }
+
+            if (!['delivered', 'failed'].includes(existing.status)) {
+                res.status(409).json({
+                    success: false,
+                    message: `Delivery is still ${existing.status}; only delivered or failed deliveries can be resent`
+                });
+                return;
+            }
+
+            const delivery = await outboundWebhookService.redeliver(deliveryId);
+
+            res.status(200).json({
+                success: true,
+                message: 'Webhook redelivery attempted',
+                data: delivery
+            });
+
+        } catch (error) {
+            logger.error(`Error redelivering webhook ${req.params.deliveryId}:`, error);
+            res.status(500).json({
+                success: false,
+                message: 'Failed to redeliver webhook',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+}
+
+// Export singleton instance
+export const webhookSubscriptionController = new WebhookSubscriptionController();
@@ -0,0 +1,97 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import IdempotencyKey from '../models/idempotencyKey';
+import { logger } from '../utils/logger';
+import { sendErrorResponse } from '../utils/errorResponse';
+
+export const IDEMPOTENCY_HEADER = 'idempotency-key';
+
+function sha256(value: Buffer | string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Make a POST handler safe to retry. The first delivery runs and its response is stored under the
+ * Idempotency-Key header (or, when a sender doesn't send one, a hash of the request body); repeats of
+ * the same delivery get the stored response back without running the handler again.
+ */
+export async function idempotency(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+        const ttlHours = parseInt(process.env.IDEMPOTENCY_TTL_HOURS || '24');
+        const lockSeconds = parseInt(process.env.IDEMPOTENCY_LOCK_SECONDS || '120');
+
+        const body = req.rawBody || Buffer.from(JSON.stringify(req.body ?? {}));
+        const requestHash = sha256(body);
+        const headerKey = req.get(IDEMPOTENCY_HEADER)?.trim();
+        const key = headerKey || `body:${requestHash}`;
+        const scope = `${req.method} ${req.baseUrl}${req.path}`;
+
+        let record = await IdempotencyKey.findOneAndUpdate(
+            { scope, key },
+            {
+                $setOnInsert: {
+                    scope,
+                    key,
+                    requestHash,
+                    status: 'processing',
+                    expiresAt: new Date(Date.now() + ttlHours * 60 * 60 * 1000)
+                }
+            },
+            { upsert: true, new: false }
+        );
+
+        if (record) {
+            if (record.requestHash !== requestHash) {
+                return sendErrorResponse(req, res, 422, 'idempotency_key_mismatch', 'Idempotency key was already used with a different payload');
+            }
+
+            if (record.status === 'completed') {
+                logger.info(`Replaying stored response for idempotency key ${key} on ${scope}`);
+                res.set('Idempotent-Replayed', 'true');
+                res.status(record.responseStatus || 200).json(record.responseBody);
+                return;
+            }
+
+            // Still processing: only take over when the original attempt looks abandoned
+            const takenOver = await IdempotencyKey.findOneAndUpdate(
+                { _id: record._id, status: 'processing', updatedAt: { $lt: new Date(Date.now() - lockSeconds * 1000) } },
+                { $set: { updatedAt: new Date() } },
+                { new: true, timestamps: false }
+            );
+            if (!takenOver) {
+                return sendErrorResponse(req, res, 409, 'idempotency_key_in_progress', 'A request with this idempotency key is still being processed');
+            }
+            record = takenOver;
+        }
+
+        // Store whatever the handler responds with; server errors release the key so the sender can retry
+        const originalJson = res.json.bind(res);
+        res.json = (responseBody: any) => {
+            const statusCode = res.statusCode;
+            const storedBody = JSON.parse(JSON.stringify(responseBody ?? null));
+
+            const persist = statusCode >= 500
+                ? IdempotencyKey.deleteOne({ scope, key, status: 'processing' })
+                : IdempotencyKey.updateOne(
+                    { scope, key },
+                    {
+                        status: 'completed',
+                        responseStatus: statusCode,
+                        responseBody: storedBody,
+                        responseHash: sha256(JSON.stringify(storedBody)),
+                        completedAt: new Date()
+                    }
+                );
+
+            persist.catch(error => logger.error(`Error storing idempotent response for key ${key} on ${scope}:`, error));
+
+            return originalJson(responseBody);
+        };
+
+        next();
+
+    } catch (error) {
+        logger.error('Error in idempotency middleware:', error);
+        next(error);
+    }
+}
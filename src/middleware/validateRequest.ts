@@ -0,0 +1,66 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { sendErrorResponse } from '../utils/errorResponse';
+
+type RequestPart = 'params' | 'query' | 'body';
+
+export type RequestSchemas = Partial<Record<RequestPart, z.ZodType>>;
+
+export interface ValidationErrorDetail {
+    field: string;
+    location: RequestPart;
+    message: string;
+}
+
+// Parsed (coerced, defaulted) request parts. Express 5 exposes req.query as a getter, so parsed
+// values live here instead of being written back onto the request.
+declare global {
+    namespace Express {
+        interface Request {
+            validated?: Partial<Record<RequestPart, any>>;
+        }
+    }
+}
+
+/**
+ * Validate params, query and body against their schemas before the handler runs.
+ * Responds 400 with every failing field at once in error.details; on success the parsed body replaces req.body
+ * and all parsed parts are available on req.validated.
+ */
+export function validateRequest(schemas: RequestSchemas) {
+    return (req: Request, res: Response, next: NextFunction): void => {
+        const errors: ValidationErrorDetail[] = [];
+        const validated: Partial<Record<RequestPart, any>> = {};
+
+        for (const location of ['params', 'query', 'body'] as RequestPart[]) {
+            const schema = schemas[location];
+            if (!schema) continue;
+
+            const result = schema.safeParse(req[location]);
+            if (result.success) {
+                validated[location] = result.data;
+                continue;
+            }
+
+            for (const issue of result.error.issues) {
+                errors.push({
+                    field: issue.path.length ? issue.path.join('.') : location,
+                    location,
+                    message: issue.message
+                });
+            }
+        }
+
+        if (errors.length) {
+            sendErrorResponse(req, res, 400, 'validation_failed', 'Validation failed', errors);
+            return;
+        }
+
+        req.validated = validated;
+        if (validated.body !== undefined) {
+            req.body = validated.body;
+        }
+
+        next();
+    };
+}
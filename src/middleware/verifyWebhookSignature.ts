@@ -0,0 +1,97 @@
+import { Request, Response, NextFunction } from 'express';
+import WebhookNonce from '../models/webhookNonce';
+import { logger } from '../utils/logger';
+import { sendErrorResponse } from '../utils/errorResponse';
+import { computeSignature, signaturesMatch, SIGNATURE_HEADER, TIMESTAMP_HEADER, NONCE_HEADER } from '../utils/webhookSigning';
+
+// Raw request bytes captured by express.json so the signature is checked against exactly what was sent
+declare global {
+    namespace Express {
+        interface Request {
+            rawBody?: Buffer;
+        }
+    }
+}
+
+/**
+ * Active secrets, newest first. WEBHOOK_SECRETS takes a comma-separated list so a new secret can be
+ * rolled out while senders still sign with the previous one.
+ */
+function getWebhookSecrets(): string[] {
+    const raw = process.env.WEBHOOK_SECRETS || process.env.WEBHOOK_SECRET || '';
+    return raw.split(',').map(secret => secret.trim()).filter(Boolean);
+}
+
+function rejectRequest(req: Request, res: Response, code: string, message: string): void {
+    logger.warn(`Rejected webhook ${req.method} ${req.originalUrl}: ${message}`);
+    sendErrorResponse(req, res, 401, code, message);
+}
+
+/**
+ * Verify HMAC signature, timestamp freshness and nonce uniqueness of an inbound webhook
+ */
+export async function verifyWebhookSignature(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+        if (process.env.WEBHOOK_VERIFICATION_DISABLED === 'true') {
+            return next();
+        }
+
+        const secrets = getWebhookSecrets();
+        if (!secrets.length) {
+            logger.error('WEBHOOK_SECRETS is not configured; rejecting webhook');
+            return rejectRequest(req, res, 'verification_unavailable', 'Webhook verification is not configured');
+        }
+
+        const signatureHeader = req.get(SIGNATURE_HEADER);
+        const timestamp = req.get(TIMESTAMP_HEADER);
+        const nonce = req.get(NONCE_HEADER);
+
+        if (!signatureHeader || !timestamp || !nonce) {
+            return rejectRequest(req, res, 'missing_signature', `Missing ${SIGNATURE_HEADER}, ${TIMESTAMP_HEADER} or ${NONCE_HEADER} header`);
+        }
+
+        const toleranceSeconds = parseInt(process.env.WEBHOOK_TOLERANCE_SECONDS || '300');
+        const timestampSeconds = parseInt(timestamp, 10);
+        const nowSeconds = Math.floor(Date.now() / 1000);
+
+        if (!/^\d+$/.test(timestamp) || Math.abs(nowSeconds - timestampSeconds) > toleranceSeconds) {
+            return rejectRequest(req, res, 'stale_timestamp', `Timestamp outside the ${toleranceSeconds}s tolerance window`);
+        }
+
+        // Accept "sha256=<hex>" and allow several comma-separated signatures (one per secret) during rotation
+        const receivedSignatures = signatureHeader
+            .split(',')
+            .map(part => part.trim().replace(/^sha256=/, ''))
+            .filter(part => /^[0-9a-f]+$/i.test(part));
+
+        const body = req.rawBody || Buffer.alloc(0);
+        const valid = secrets.some(secret => {
+            const expected = computeSignature(secret, timestamp, nonce, body);
+            return receivedSignatures.some(received => signaturesMatch(expected, received));
+        });
+
+        if (!valid) {
+            return rejectRequest(req, res, 'invalid_signature', 'Webhook signature does not match');
+        }
+
+        // Unique index turns a second delivery of the same nonce into a duplicate key error.
+        // Retries are signed again with a fresh nonce; the idempotency key keeps them safe.
+        try {
+            await WebhookNonce.create({
+                nonce,
+                expiresAt: new Date((timestampSeconds + toleranceSeconds) * 1000)
+            });
+        } catch (error: any) {
+            if (error?.code === 11000) {
+                return rejectRequest(req, res, 'replayed_nonce', 'Webhook nonce has already been used');
+            }
+            throw error;
+        }
+
+        next();
+
+    } catch (error) {
+        logger.error('Error verifying webhook signature:', error);
+        next(error);
+    }
+}
@@ -3,7 +3,8 @@ import mongoose from 'mongoose';
 const aiSummariesSchema = new mongoose.Schema({
     userId: {
         type: String,
-        required: true,
+        // Shared category summaries belong to no user
+        required: function (this: any) { return this.summaryType !== 'category'; },
     },
     summary: {
         type: String,
@@ -35,9 +36,41 @@ const aiSummariesSchema = new mongoose.Schema({
         type: String,
         required: false
     },
+    audioFailed: {
+        type: Boolean,
+        required: false,
+        default: false
+    },
+    audioFailureReason: {
+        type: String,
+        required: false
+    },
+    // Set on shared category summaries, which user mixes are assembled from
+    categoryId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Category',
+        required: false
+    },
+    // Articles the summary was generated from
+    articleIds: [{
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'NewsArticle'
+    }],
 },{
     timestamps: true,
     versionKey: false,
 });
 
+// One user summary per batch, so a retried summary webhook can't be saved twice
+aiSummariesSchema.index(
+    { batchId: 1, userId: 1 },
+    { unique: true, partialFilterExpression: { batchId: { $type: 'string' }, summaryType: 'user' } }
+);
+
+// One shared summary per category per batch
+aiSummariesSchema.index(
+    { batchId: 1, categoryId: 1 },
+    { unique: true, partialFilterExpression: { batchId: { $type: 'string' }, summaryType: 'category' } }
+);
+
 export default mongoose.model('AiSummaries', aiSummariesSchema);
\ No newline at end of file
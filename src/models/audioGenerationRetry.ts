@@ -2,6 +2,8 @@ import mongoose, { Document, Schema } from 'mongoose';
 
 export interface IAudioGenerationRetry extends Document {
     batchId: string;
+    summaryId: string;
+    userId: string;
     retryCount: number;
     maxRetries: number;
     status: 'pending' | 'retrying' | 'success' | 'failed';
@@ -20,6 +22,15 @@ const audioGenerationRetrySchema = new Schema<IAudioGenerationRetry>({
         required: true,
         index: true
     },
+    summaryId: {
+        type: String,
+        required: true,
+        unique: true
+    },
+    userId: {
+        type: String,
+        required: true
+    },
     retryCount: {
         type: Number,
         required: true,
@@ -0,0 +1,49 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { BatchStatus } from './batchTracker';
+
+export type BatchEventActor = 'scheduler' | 'webhook' | 'timeout_service' | 'recovery' | 'audio_service' | 'api' | 'system';
+
+export interface IBatchEvent extends Document {
+    batchId: string;
+    fromStatus: BatchStatus | null; // null for the creation event
+    toStatus: BatchStatus;
+    actor: BatchEventActor;
+    reason: string;
+    metadata?: any;
+    createdAt: Date;
+}
+
+const batchEventSchema = new Schema<IBatchEvent>({
+    batchId: {
+        type: String,
+        required: true
+    },
+    fromStatus: {
+        type: String,
+        default: null
+    },
+    toStatus: {
+        type: String,
+        required: true
+    },
+    actor: {
+        type: String,
+        enum: ['scheduler', 'webhook', 'timeout_service', 'recovery', 'audio_service', 'api', 'system'],
+        required: true
+    },
+    reason: {
+        type: String,
+        required: true
+    },
+    metadata: {
+        type: Schema.Types.Mixed
+    }
+}, {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: 'batch_events'
+});
+
+// Index for reading a batch's timeline in order
+batchEventSchema.index({ batchId: 1, createdAt: 1 });
+
+export default mongoose.model<IBatchEvent>('BatchEvent', batchEventSchema);
@@ -0,0 +1,72 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type BatchItemStatus = 'awaiting_summary' | 'summarized' | 'audio_requested' | 'audio_ready' | 'failed';
+
+export interface IBatchItem extends Document {
+    batchId: string;
+    userId: string;
+    status: BatchItemStatus;
+    summaryId?: mongoose.Types.ObjectId;
+    summarizedAt?: Date;
+    audioRequestedAt?: Date;
+    audioReadyAt?: Date;
+    failedAt?: Date;
+    failureReason?: string;
+    categoryIds?: mongoose.Types.ObjectId[]; // Category summaries the user's mix is assembled from, in category summary mode
+    deliverAt?: Date; // Local delivery slot the mix was generated for, when the user has a delivery schedule
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const batchItemSchema = new Schema<IBatchItem>({
+    batchId: {
+        type: String,
+        required: true
+    },
+    userId: {
+        type: String,
+        required: true
+    },
+    status: {
+        type: String,
+        enum: ['awaiting_summary', 'summarized', 'audio_requested', 'audio_ready', 'failed'],
+        default: 'awaiting_summary',
+        required: true
+    },
+    summaryId: {
+        type: Schema.Types.ObjectId,
+        ref: 'AiSummaries'
+    },
+    summarizedAt: {
+        type: Date
+    },
+    audioRequestedAt: {
+        type: Date
+    },
+    audioReadyAt: {
+        type: Date
+    },
+    failedAt: {
+        type: Date
+    },
+    failureReason: {
+        type: String
+    },
+    categoryIds: [{
+        type: Schema.Types.ObjectId,
+        ref: 'Category'
+    }],
+    deliverAt: {
+        type: Date
+    }
+}, {
+    timestamps: true,
+    collection: 'batch_items'
+});
+
+// One item per user per batch
+batchItemSchema.index({ batchId: 1, userId: 1 }, { unique: true });
+batchItemSchema.index({ batchId: 1, status: 1 });
+batchItemSchema.index({ summaryId: 1 });
+
+export default mongoose.model<IBatchItem>('BatchItem', batchItemSchema);
@@ -1,10 +1,12 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+export type BatchStatus = 'pending' | 'partial_complete' | 'complete' | 'audio_requested' | 'audio_complete' | 'audio_failed' | 'failed';
+
 export interface IBatchTracker extends Document {
     batchId: string;
     expectedCount: number;
     receivedCount: number;
-    status: 'pending' | 'partial_complete' | 'complete' | 'audio_requested' | 'audio_complete' | 'audio_failed' | 'failed';
+    status: BatchStatus;
     createdAt: Date;
     partialCompletedAt?: Date;
     completedAt?: Date;
@@ -15,6 +17,7 @@ export interface IBatchTracker extends Document {
     userIds: string[]; // Track which users are part of this batch
     audioUrl?: string; // Store audio URL when generation is complete
     failureReason?: string; // Store failure reason if audio generation fails
+    cancelledAt?: Date; // Set when cancelled via the API; cancelled batches are never recovered
 }
 
 const batchTrackerSchema = new Schema<IBatchTracker>({
@@ -78,6 +81,10 @@ const batchTrackerSchema = new Schema<IBatchTracker>({
     failureReason: {
         type: String,
         required: false
+    },
+    cancelledAt: {
+        type: Date,
+        required: false
     }
 }, {
     timestamps: true,
@@ -8,6 +8,19 @@ const categorySchema = new mongoose.Schema({
     isActive: {
         type: Boolean,
         default: true
+    },
+    // Set when this category was merged into another; it stays inactive for history
+    mergedInto: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Category'
+    },
+    deactivatedAt: {
+        type: Date
+    },
+    // Articles older than this are never selected; falls back to ARTICLE_MAX_AGE_HOURS
+    maxAgeHours: {
+        type: Number,
+        min: 1
     }
 }, {
     timestamps: true
@@ -15,4 +28,4 @@ const categorySchema = new mongoose.Schema({
 
 const Category = mongoose.model('Category', categorySchema);
 
-export default Category;
\ No newline at end of file
+export default Category;
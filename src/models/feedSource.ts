@@ -0,0 +1,82 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IFeedSource extends Document {
+    name: string;
+    url: string;
+    categoryId: mongoose.Types.ObjectId;
+    source?: string; // Publisher name stored on ingested articles, falls back to the feed title
+    pollIntervalMinutes: number;
+    priority: number; // 0-1, how strongly selection favours this source's articles
+    isEnabled: boolean;
+    lastPolledAt?: Date;
+    lastSuccessAt?: Date;
+    nextPollAt?: Date;
+    lastError?: string;
+    lastItemCount?: number;
+    trackingParams?: string[]; // Extra query parameters this feed's links carry for tracking only, stripped from canonical URLs
+}
+
+const feedSourceSchema = new Schema<IFeedSource>({
+    name: {
+        type: String,
+        required: true
+    },
+    url: {
+        type: String,
+        required: true,
+        unique: true
+    },
+    categoryId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Category',
+        required: true
+    },
+    source: {
+        type: String,
+        required: false
+    },
+    pollIntervalMinutes: {
+        type: Number,
+        required: true,
+        default: 30,
+        min: 1
+    },
+    priority: {
+        type: Number,
+        default: 0.5,
+        min: 0,
+        max: 1
+    },
+    isEnabled: {
+        type: Boolean,
+        required: true,
+        default: true
+    },
+    lastPolledAt: {
+        type: Date
+    },
+    lastSuccessAt: {
+        type: Date
+    },
+    nextPollAt: {
+        type: Date
+    },
+    lastError: {
+        type: String
+    },
+    lastItemCount: {
+        type: Number
+    },
+    trackingParams: {
+        type: [String],
+        default: undefined
+    }
+}, {
+    timestamps: true,
+    collection: 'feed_sources'
+});
+
+// Index for efficient due-feed queries
+feedSourceSchema.index({ isEnabled: 1, nextPollAt: 1 });
+
+export default mongoose.model<IFeedSource>('FeedSource', feedSourceSchema);
@@ -0,0 +1,58 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IIdempotencyKey extends Document {
+    key: string;
+    scope: string; // Route the key was used on; the same key on another route is a different request
+    requestHash: string;
+    status: 'processing' | 'completed';
+    responseStatus?: number;
+    responseBody?: any;
+    responseHash?: string;
+    expiresAt: Date;
+    completedAt?: Date;
+}
+
+const idempotencyKeySchema = new Schema<IIdempotencyKey>({
+    key: {
+        type: String,
+        required: true
+    },
+    scope: {
+        type: String,
+        required: true
+    },
+    requestHash: {
+        type: String,
+        required: true
+    },
+    status: {
+        type: String,
+        enum: ['processing', 'completed'],
+        default: 'processing',
+        required: true
+    },
+    responseStatus: {
+        type: Number
+    },
+    responseBody: {
+        type: Schema.Types.Mixed
+    },
+    responseHash: {
+        type: String
+    },
+    expiresAt: {
+        type: Date,
+        required: true
+    },
+    completedAt: {
+        type: Date
+    }
+}, {
+    timestamps: true,
+    collection: 'idempotency_keys'
+});
+
+idempotencyKeySchema.index({ scope: 1, key: 1 }, { unique: true });
+idempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IIdempotencyKey>('IdempotencyKey', idempotencyKeySchema);
@@ -0,0 +1,96 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const JOB_NAMES = ['summary_generation', 'batch_maintenance', 'delivery_generation'] as const;
+export type JobName = typeof JOB_NAMES[number];
+
+export const JOB_TRIGGERS = ['cron', 'manual', 'startup'] as const;
+export type JobTrigger = typeof JOB_TRIGGERS[number];
+
+export const JOB_RUN_STATUSES = ['running', 'succeeded', 'failed', 'skipped'] as const;
+export type JobRunStatus = typeof JOB_RUN_STATUSES[number];
+
+export interface IJobRun extends Document {
+    job: JobName;
+    trigger: JobTrigger;
+    status: JobRunStatus;
+    instanceId: string; // Scheduler instance that ran (or skipped) the job
+    startedAt: Date;
+    finishedAt?: Date;
+    durationMs?: number;
+    batchId?: string;
+    counts: {
+        users: number;
+        summaries: number;
+        errors: number;
+    };
+    error?: string;
+    skipReason?: string;
+    details?: any;
+    expiresAt: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const jobRunSchema = new Schema<IJobRun>({
+    job: {
+        type: String,
+        enum: JOB_NAMES,
+        required: true
+    },
+    trigger: {
+        type: String,
+        enum: JOB_TRIGGERS,
+        required: true
+    },
+    status: {
+        type: String,
+        enum: JOB_RUN_STATUSES,
+        default: 'running',
+        required: true
+    },
+    instanceId: {
+        type: String,
+        required: true
+    },
+    startedAt: {
+        type: Date,
+        required: true
+    },
+    finishedAt: {
+        type: Date
+    },
+    durationMs: {
+        type: Number
+    },
+    batchId: {
+        type: String
+    },
+    counts: {
+        users: { type: Number, default: 0 },
+        summaries: { type: Number, default: 0 },
+        errors: { type: Number, default: 0 }
+    },
+    error: {
+        type: String
+    },
+    skipReason: {
+        type: String
+    },
+    details: {
+        type: Schema.Types.Mixed
+    },
+    expiresAt: {
+        type: Date,
+        required: true
+    }
+}, {
+    timestamps: true,
+    collection: 'job_runs'
+});
+
+// Newest-first history per job; _id breaks ties for cursor pagination
+jobRunSchema.index({ job: 1, createdAt: -1, _id: -1 });
+jobRunSchema.index({ createdAt: -1, _id: -1 });
+jobRunSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IJobRun>('JobRun', jobRunSchema);
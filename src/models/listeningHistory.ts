@@ -0,0 +1,70 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// History is kept this long; HISTORY_EXCLUSION_HOURS can't look back further
+export const HISTORY_TTL_DAYS = 30;
+
+export interface IListeningHistory extends Document {
+    userId: string;
+    articleId: mongoose.Types.ObjectId;
+    storyClusterId?: string; // Lets selection skip other sources' coverage of a story the user already heard
+    categoryId?: mongoose.Types.ObjectId;
+    newsSummaryId?: mongoose.Types.ObjectId;
+    aiSummaryId?: mongoose.Types.ObjectId;
+    batchId?: string;
+    deliveredAt: Date; // When the article went into a summary input
+    confirmedAt?: Date; // When the mix carrying it had audio ready; only confirmed rows exclude articles
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const listeningHistorySchema = new Schema<IListeningHistory>({
+    userId: {
+        type: String,
+        required: true
+    },
+    articleId: {
+        type: Schema.Types.ObjectId,
+        ref: 'NewsArticle',
+        required: true
+    },
+    storyClusterId: {
+        type: String
+    },
+    categoryId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Category'
+    },
+    newsSummaryId: {
+        type: Schema.Types.ObjectId,
+        ref: 'NewsSummaries'
+    },
+    aiSummaryId: {
+        type: Schema.Types.ObjectId,
+        ref: 'AiSummaries'
+    },
+    batchId: {
+        type: String
+    },
+    deliveredAt: {
+        type: Date,
+        required: true
+    },
+    confirmedAt: {
+        type: Date
+    }
+}, {
+    timestamps: true,
+    collection: 'listening_history'
+});
+
+// One row per user and article, refreshed each time the article is delivered again
+listeningHistorySchema.index({ userId: 1, articleId: 1 }, { unique: true });
+listeningHistorySchema.index({ userId: 1, deliveredAt: -1 });
+listeningHistorySchema.index({ userId: 1, batchId: 1 });
+listeningHistorySchema.index({ userId: 1, confirmedAt: -1 });
+listeningHistorySchema.index({ aiSummaryId: 1 });
+
+// History older than any allowed exclusion window is dropped by Mongo
+listeningHistorySchema.index({ deliveredAt: 1 }, { expireAfterSeconds: HISTORY_TTL_DAYS * 24 * 60 * 60 });
+
+export default mongoose.model<IListeningHistory>('ListeningHistory', listeningHistorySchema);
@@ -12,13 +12,49 @@ const newsSchema = new mongoose.Schema({
     fullText:{
         type: String,
     },
+    wordCount:{
+        type: Number,
+        required: false
+    },
+    extractionStatus:{
+        type: String,
+        enum: ['pending', 'extracted', 'fallback', 'failed'],
+        default: 'pending',
+        index: true
+    },
+    extractedAt:{
+        type: Date,
+        required: false
+    },
     publishedAt:{
         type: Date,
         required: true
     },
     url:{
         type: String,
-        required: true
+        required: true,
+        index: true
+    },
+    canonicalUrl:{
+        type: String,
+        required: false,
+        index: true
+    },
+    storyClusterId:{
+        type: String,
+        required: false,
+        index: true
+    },
+    minHashSignature:{
+        type: [Number],
+        required: false,
+        select: false
+    },
+    lshBands:{
+        type: [String],
+        required: false,
+        index: true,
+        select: false
     },
     categoryId:{
         type: mongoose.Schema.Types.ObjectId,
@@ -31,6 +67,18 @@ const newsSchema = new mongoose.Schema({
     source: {
         type: String,
         required: false
+    },
+    feedSourceId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'FeedSource',
+        required: false
+    },
+    // Optional external popularity signal (e.g. clicks, shares), normalised to 0-1
+    popularity: {
+        type: Number,
+        required: false,
+        min: 0,
+        max: 1
     }
 }, {
     timestamps: true
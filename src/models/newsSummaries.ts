@@ -12,7 +12,7 @@ const newsSummariesSchema = new mongoose.Schema({
     summaryType: {
         type: String,
         required: false,
-        enum: ['general', 'user']
+        enum: ['general', 'user', 'category']
     },
     categoryId: {
         type: mongoose.Schema.Types.ObjectId,
@@ -25,6 +25,27 @@ const newsSummariesSchema = new mongoose.Schema({
     articleCount: {
         type: Number,
         required: true
+    },
+    articleIds: [{
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'NewsArticle'
+    }],
+    batchId: {
+        type: String,
+        required: false,
+        index: true
+    },
+    // Summary cache key the input was sent under
+    cache: {
+        key: String,
+        provider: String,
+        model: String,
+        maxLength: Number
+    },
+    // Category inputs whose summarizer request failed; their summary will never arrive
+    failedAt: {
+        type: Date,
+        required: false
     }
 }, { timestamps: true });
 
@@ -0,0 +1,42 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ISchedulerLock extends Document {
+    name: string; // Job the lease guards, e.g. "summary_generation"
+    owner: string; // Instance holding the lease
+    acquiredAt: Date;
+    heartbeatAt: Date;
+    expiresAt: Date; // Anyone may take the lease over after this; set to the release time once the job settles
+    lastRunSlot?: Date; // Latest scheduled fire time a run was claimed for, so each cron slot runs once
+}
+
+const schedulerLockSchema = new Schema<ISchedulerLock>({
+    name: {
+        type: String,
+        required: true,
+        unique: true
+    },
+    owner: {
+        type: String,
+        required: true
+    },
+    acquiredAt: {
+        type: Date,
+        required: true
+    },
+    heartbeatAt: {
+        type: Date,
+        required: true
+    },
+    expiresAt: {
+        type: Date,
+        required: true
+    },
+    lastRunSlot: {
+        type: Date
+    }
+}, {
+    timestamps: true,
+    collection: 'scheduler_locks'
+});
+
+export default mongoose.model<ISchedulerLock>('SchedulerLock', schedulerLockSchema);
@@ -0,0 +1,33 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const SCHEDULER_TASKS = ['summary_generation', 'batch_maintenance', 'feed_ingestion', 'delivery_generation'] as const;
+export type SchedulerTaskName = typeof SCHEDULER_TASKS[number];
+
+export interface ISchedulerTaskSetting extends Document {
+    task: SchedulerTaskName;
+    cronPattern?: string; // Overrides the task's environment schedule when set
+    isPaused: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const schedulerTaskSettingSchema = new Schema<ISchedulerTaskSetting>({
+    task: {
+        type: String,
+        enum: SCHEDULER_TASKS,
+        required: true,
+        unique: true
+    },
+    cronPattern: {
+        type: String
+    },
+    isPaused: {
+        type: Boolean,
+        default: false
+    }
+}, {
+    timestamps: true,
+    collection: 'scheduler_task_settings'
+});
+
+export default mongoose.model<ISchedulerTaskSetting>('SchedulerTaskSetting', schedulerTaskSettingSchema);
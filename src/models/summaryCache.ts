@@ -0,0 +1,65 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ISummaryCache extends Document {
+    key: string; // sha256 of the ordered article ids, provider, model and summarization params
+    articleIds: mongoose.Types.ObjectId[];
+    provider: string;
+    providerModel: string;
+    maxLength: number;
+    summary: string;
+    summaryTitle?: string;
+    hitCount: number;
+    lastHitAt?: Date;
+    expiresAt: Date;
+}
+
+const summaryCacheSchema = new Schema<ISummaryCache>({
+    key: {
+        type: String,
+        required: true,
+        unique: true
+    },
+    articleIds: [{
+        type: Schema.Types.ObjectId,
+        ref: 'NewsArticle'
+    }],
+    provider: {
+        type: String,
+        required: true
+    },
+    providerModel: {
+        type: String,
+        required: true
+    },
+    maxLength: {
+        type: Number,
+        required: true
+    },
+    summary: {
+        type: String,
+        required: true
+    },
+    summaryTitle: {
+        type: String
+    },
+    hitCount: {
+        type: Number,
+        default: 0
+    },
+    lastHitAt: {
+        type: Date
+    },
+    expiresAt: {
+        type: Date,
+        required: true
+    }
+}, {
+    timestamps: true,
+    collection: 'summary_cache'
+});
+
+// Invalidation by article
+summaryCacheSchema.index({ articleIds: 1 });
+summaryCacheSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<ISummaryCache>('SummaryCache', summaryCacheSchema);
@@ -5,6 +5,7 @@ const userCategoryPreferenceSchema = new mongoose.Schema({
         type: String,
         ref: "User",
         required: true,
+        index: true,
     },
     preferredCategories: [
         {
@@ -16,6 +17,13 @@ const userCategoryPreferenceSchema = new mongoose.Schema({
             categoryName:{
                 type: String,
                 required: true,
+            },
+            // Relative share of the user's mix: 2 means twice the articles of a weight-1 category
+            weight:{
+                type: Number,
+                min: 0.1,
+                max: 3,
+                default: 1,
             }
         }
     ]
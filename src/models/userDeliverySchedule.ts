@@ -0,0 +1,55 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IUserDeliverySchedule extends Document {
+    userId: string;
+    timezone: string; // IANA zone, e.g. "Asia/Tokyo"
+    deliverySlots: string[]; // Local "HH:mm" times the user wants a fresh mix by
+    isEnabled: boolean;
+    nextDeliveryAt?: Date; // Next slot as an instant; generation starts DELIVERY_LEAD_MINUTES before it
+    lastScheduledAt?: Date; // Slot the most recent batch was generated for
+    pendingDeliveryAt?: Date; // Slot claimed by a delivery run that hasn't created its batch yet
+    pendingClaimedAt?: Date; // When that run claimed it; claims older than the lead time are retried
+}
+
+const userDeliveryScheduleSchema = new Schema<IUserDeliverySchedule>({
+    userId: {
+        type: String,
+        required: true,
+        unique: true
+    },
+    timezone: {
+        type: String,
+        required: true,
+        default: 'UTC'
+    },
+    deliverySlots: {
+        type: [String],
+        default: []
+    },
+    isEnabled: {
+        type: Boolean,
+        required: true,
+        default: true
+    },
+    nextDeliveryAt: {
+        type: Date
+    },
+    lastScheduledAt: {
+        type: Date
+    },
+    pendingDeliveryAt: {
+        type: Date
+    },
+    pendingClaimedAt: {
+        type: Date
+    }
+}, {
+    timestamps: true,
+    collection: 'user_delivery_schedules'
+});
+
+// Index for efficient due-slot queries
+userDeliveryScheduleSchema.index({ isEnabled: 1, nextDeliveryAt: 1 });
+userDeliveryScheduleSchema.index({ isEnabled: 1, pendingClaimedAt: 1 });
+
+export default mongoose.model<IUserDeliverySchedule>('UserDeliverySchedule', userDeliveryScheduleSchema);
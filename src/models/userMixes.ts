@@ -20,10 +20,21 @@ const userMixesSchema = new mongoose.Schema({
         type: String,
         enum:['morning','afternoon','evening','night'],
         default:'morning'
+    },
+    summaryId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'AiSummaries',
+        required: false
     }
 },{
     timestamps: true,
     versionKey: false,
 });
 
+// One mix per summary, so a retried audio webhook can't create a second row
+userMixesSchema.index({ summaryId: 1 }, { unique: true, sparse: true });
+
+// Newest-first feed per user; _id breaks ties for cursor pagination
+userMixesSchema.index({ userId: 1, createdAt: -1, _id: -1 });
+
 export default mongoose.model('UserMixes', userMixesSchema);
\ No newline at end of file
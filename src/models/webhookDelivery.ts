@@ -0,0 +1,102 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { OUTBOUND_WEBHOOK_EVENTS, OutboundWebhookEvent } from './webhookSubscription';
+
+export type WebhookDeliveryStatus = 'pending' | 'sending' | 'retrying' | 'delivered' | 'failed';
+
+export interface IWebhookDeliveryAttempt {
+    attemptedAt: Date;
+    responseStatus?: number;
+    durationMs: number;
+    error?: string;
+}
+
+export interface IWebhookDelivery extends Document {
+    subscriptionId: mongoose.Types.ObjectId;
+    event: OutboundWebhookEvent;
+    eventId: string; // Same for every subscription receiving one event; lets receivers dedupe
+    payload: any;
+    status: WebhookDeliveryStatus;
+    attemptCount: number;
+    maxAttempts: number;
+    nextAttemptAt?: Date;
+    lastAttemptAt?: Date;
+    lastResponseStatus?: number;
+    lastError?: string;
+    deliveredAt?: Date;
+    failedAt?: Date;
+    attempts: IWebhookDeliveryAttempt[];
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const webhookDeliverySchema = new Schema<IWebhookDelivery>({
+    subscriptionId: {
+        type: Schema.Types.ObjectId,
+        ref: 'WebhookSubscription',
+        required: true,
+        index: true
+    },
+    event: {
+        type: String,
+        enum: OUTBOUND_WEBHOOK_EVENTS,
+        required: true
+    },
+    eventId: {
+        type: String,
+        required: true,
+        index: true
+    },
+    payload: {
+        type: Schema.Types.Mixed,
+        required: true
+    },
+    status: {
+        type: String,
+        enum: ['pending', 'sending', 'retrying', 'delivered', 'failed'],
+        default: 'pending',
+        required: true
+    },
+    attemptCount: {
+        type: Number,
+        default: 0,
+        min: 0
+    },
+    maxAttempts: {
+        type: Number,
+        required: true
+    },
+    nextAttemptAt: {
+        type: Date
+    },
+    lastAttemptAt: {
+        type: Date
+    },
+    lastResponseStatus: {
+        type: Number
+    },
+    lastError: {
+        type: String
+    },
+    deliveredAt: {
+        type: Date
+    },
+    failedAt: {
+        type: Date
+    },
+    attempts: [{
+        _id: false,
+        attemptedAt: { type: Date, required: true },
+        responseStatus: { type: Number },
+        durationMs: { type: Number, required: true },
+        error: { type: String }
+    }]
+}, {
+    timestamps: true,
+    collection: 'webhook_deliveries'
+});
+
+// Index for picking up due deliveries
+webhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+webhookDeliverySchema.index({ subscriptionId: 1, createdAt: -1 });
+
+export default mongoose.model<IWebhookDelivery>('WebhookDelivery', webhookDeliverySchema);
@@ -0,0 +1,26 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IWebhookNonce extends Document {
+    nonce: string;
+    expiresAt: Date;
+}
+
+const webhookNonceSchema = new Schema<IWebhookNonce>({
+    nonce: {
+        type: String,
+        required: true,
+        unique: true
+    },
+    expiresAt: {
+        type: Date,
+        required: true
+    }
+}, {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: 'webhook_nonces'
+});
+
+// Mongo drops nonces once they can no longer pass the timestamp check anyway
+webhookNonceSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IWebhookNonce>('WebhookNonce', webhookNonceSchema);
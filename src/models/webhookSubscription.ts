@@ -0,0 +1,54 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const OUTBOUND_WEBHOOK_EVENTS = ['mix.ready', 'batch.completed', 'batch.failed', 'scheduler.task_failed'] as const;
+export type OutboundWebhookEvent = typeof OUTBOUND_WEBHOOK_EVENTS[number];
+
+export interface IWebhookSubscription extends Document {
+    name: string;
+    url: string;
+    events: OutboundWebhookEvent[];
+    secret: string; // Shared with the receiver to verify the signature headers
+    isActive: boolean;
+    description?: string;
+    lastDeliveryAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const webhookSubscriptionSchema = new Schema<IWebhookSubscription>({
+    name: {
+        type: String,
+        required: true
+    },
+    url: {
+        type: String,
+        required: true
+    },
+    events: {
+        type: [String],
+        enum: OUTBOUND_WEBHOOK_EVENTS,
+        required: true,
+        index: true
+    },
+    secret: {
+        type: String,
+        required: true,
+        select: false
+    },
+    isActive: {
+        type: Boolean,
+        default: true,
+        index: true
+    },
+    description: {
+        type: String
+    },
+    lastDeliveryAt: {
+        type: Date
+    }
+}, {
+    timestamps: true,
+    collection: 'webhook_subscriptions'
+});
+
+export default mongoose.model<IWebhookSubscription>('WebhookSubscription', webhookSubscriptionSchema);
@@ -0,0 +1,33 @@
+import { Client } from '@gradio/client';
+import { SummarizationProvider, SummarizationRequest, SummarizationResult } from './types';
+
+/**
+ * Hugging Face Gradio space; results come back through the summary webhook
+ */
+export class GradioSummarizationProvider implements SummarizationProvider {
+    readonly name = 'gradio';
+    readonly model: string;
+    private space: string;
+    private endpoint: string;
+
+    constructor() {
+        this.space = process.env.GRADIO_SPACE || 'joeljose555/aiScripts';
+        this.endpoint = process.env.GRADIO_SUMMARIZATION_ENDPOINT || '/run_summarization_gpu';
+        this.model = `${this.space}${this.endpoint}`;
+    }
+
+    async summarize(request: SummarizationRequest): Promise<SummarizationResult> {
+        const client = await Client.connect(this.space, {
+            hf_token: process.env.HF_TOKEN as `hf_${string}`
+        });
+
+        const result = await client.predict(this.endpoint, {
+            text: request.text,
+            user_id: request.userId,
+            batch_id: request.batchId,
+            max_length: request.maxLength,
+        });
+
+        return { delivery: 'webhook', raw: result.data };
+    }
+}
@@ -0,0 +1,24 @@
+import { logger } from '../../utils/logger';
+import { SummarizationProvider } from './types';
+import { GradioSummarizationProvider } from './gradioSummarizationProvider';
+import { OpenAiSummarizationProvider } from './openAiSummarizationProvider';
+import { LocalSummarizationProvider } from './localSummarizationProvider';
+
+export * from './types';
+
+/**
+ * Pick the summarization backend from SUMMARIZATION_PROVIDER (gradio | openai | local)
+ */
+export function createSummarizationProvider(name: string = process.env.SUMMARIZATION_PROVIDER || 'gradio'): SummarizationProvider {
+    switch (name.toLowerCase()) {
+        case 'gradio':
+            return new GradioSummarizationProvider();
+        case 'openai':
+            return new OpenAiSummarizationProvider();
+        case 'local':
+            return new LocalSummarizationProvider();
+        default:
+            logger.warn(`Unknown SUMMARIZATION_PROVIDER "${name}", falling back to gradio`);
+            return new GradioSummarizationProvider();
+    }
+}
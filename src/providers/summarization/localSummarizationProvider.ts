@@ -0,0 +1,146 @@
+import { SummarizationProvider, SummarizationRequest, SummarizationResult } from './types';
+
+const STOPWORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'for', 'from', 'had', 'has', 'have',
+    'he', 'her', 'his', 'i', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'our', 'she', 'that',
+    'the', 'their', 'them', 'there', 'they', 'this', 'to', 'was', 'we', 'were', 'which', 'who', 'will',
+    'with', 'would', 'you', 'your', 'said', 'says', 'not', 'also', 'after', 'about', 'more', 'than'
+]);
+
+const DAMPING = 0.85;
+const ITERATIONS = 30;
+const MIN_SENTENCE_WORDS = 5;
+
+interface Sentence {
+    index: number;
+    text: string;
+    words: number;
+    tokens: Set<string>;
+}
+
+/**
+ * Extractive TextRank summarizer: no GPU, no network, same output for the same input
+ */
+export class LocalSummarizationProvider implements SummarizationProvider {
+    readonly name = 'local';
+    readonly model = 'textrank';
+
+    async summarize(request: SummarizationRequest): Promise<SummarizationResult> {
+        return {
+            delivery: 'inline',
+            summary: this.summarizeText(request.text, request.maxLength)
+        };
+    }
+
+    /**
+     * Rank sentences by TextRank centrality and keep the best ones, in original order, within maxWords
+     */
+    summarizeText(text: string, maxWords: number): string {
+        const sentences = this.splitSentences(text);
+        if (!sentences.length) {
+            return '';
+        }
+
+        const scores = this.rankSentences(sentences);
+
+        // Highest score first; ties go to the earlier sentence so output is deterministic
+        const ranked = [...sentences].sort((a, b) => scores[b.index] - scores[a.index] || a.index - b.index);
+
+        const selected: Sentence[] = [];
+        let wordCount = 0;
+        for (const sentence of ranked) {
+            if (wordCount + sentence.words > maxWords) continue;
+            selected.push(sentence);
+            wordCount += sentence.words;
+        }
+
+        if (!selected.length) {
+            return ranked[0].text.split(/\s+/).slice(0, maxWords).join(' ');
+        }
+
+        return selected
+            .sort((a, b) => a.index - b.index)
+            .map(sentence => sentence.text)
+            .join(' ');
+    }
+
+    private splitSentences(text: string): Sentence[] {
+        const sentences: Sentence[] = [];
+
+        // Each "Title: content" line is its own article; never let a sentence run across them
+        for (const line of text.split(/\n+/)) {
+            const content = line.replace(/^[^:]{1,200}:\s+/, '').trim();
+            const parts = content.match(/[^.!?]+[.!?]+["')\]]*|[^.!?]+$/g) || [];
+
+            for (const part of parts) {
+                const sentenceText = part.replace(/\s+/g, ' ').replace(/\.{3}$/, '.').trim();
+                const words = sentenceText.split(' ').filter(Boolean).length;
+                if (words < MIN_SENTENCE_WORDS) continue;
+
+                sentences.push({
+                    index: sentences.length,
+                    text: sentenceText,
+                    words,
+                    tokens: this.tokenize(sentenceText)
+                });
+            }
+        }
+
+        return sentences;
+    }
+
+    private tokenize(sentence: string): Set<string> {
+        return new Set(
+            sentence
+                .toLowerCase()
+                .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+                .split(/\s+/)
+                .filter(token => token.length > 2 && !STOPWORDS.has(token))
+        );
+    }
+
+    /**
+     * Classic TextRank: similarity is word overlap normalised by log sentence lengths, scored by damped power iteration
+     */
+    private rankSentences(sentences: Sentence[]): number[] {
+        const n = sentences.length;
+        const weights: number[][] = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+        const outgoing = new Array<number>(n).fill(0);
+
+        for (let i = 0; i < n; i++) {
+            for (let j = i + 1; j < n; j++) {
+                const similarity = this.similarity(sentences[i], sentences[j]);
+                weights[i][j] = similarity;
+                weights[j][i] = similarity;
+                outgoing[i] += similarity;
+                outgoing[j] += similarity;
+            }
+        }
+
+        let scores = new Array<number>(n).fill(1);
+        for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+            const next = new Array<number>(n).fill(1 - DAMPING);
+            for (let i = 0; i < n; i++) {
+                for (let j = 0; j < n; j++) {
+                    if (i !== j && weights[j][i] > 0 && outgoing[j] > 0) {
+                        next[i] += DAMPING * (weights[j][i] / outgoing[j]) * scores[j];
+                    }
+                }
+            }
+            scores = next;
+        }
+
+        return scores;
+    }
+
+    private similarity(a: Sentence, b: Sentence): number {
+        if (a.tokens.size < 2 || b.tokens.size < 2) return 0;
+
+        let overlap = 0;
+        for (const token of a.tokens) {
+            if (b.tokens.has(token)) overlap++;
+        }
+
+        return overlap / (Math.log(a.tokens.size) + Math.log(b.tokens.size));
+    }
+}
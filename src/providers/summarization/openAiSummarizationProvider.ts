@@ -0,0 +1,51 @@
+import axios from 'axios';
+import { SummarizationProvider, SummarizationRequest, SummarizationResult } from './types';
+
+/**
+ * Any backend exposing an OpenAI-compatible /chat/completions endpoint (OpenAI, vLLM, Ollama, LM Studio...)
+ */
+export class OpenAiSummarizationProvider implements SummarizationProvider {
+    readonly name = 'openai';
+    readonly model: string;
+    private baseUrl: string;
+    private apiKey?: string;
+    private timeout: number;
+
+    constructor() {
+        this.baseUrl = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '');
+        this.apiKey = process.env.OPENAI_API_KEY;
+        this.model = process.env.OPENAI_SUMMARIZATION_MODEL || 'gpt-4o-mini';
+        this.timeout = parseInt(process.env.OPENAI_TIMEOUT_MS || '120000');
+    }
+
+    async summarize(request: SummarizationRequest): Promise<SummarizationResult> {
+        const response = await axios.post(`${this.baseUrl}/chat/completions`, {
+            model: this.model,
+            temperature: 0.3,
+            max_tokens: Math.ceil(request.maxLength * 1.5),
+            messages: [
+                {
+                    role: 'system',
+                    content: `You write a spoken news briefing from the articles provided. Cover every story briefly, keep it under ${request.maxLength} words, and use plain sentences that read well aloud.`
+                },
+                {
+                    role: 'user',
+                    content: request.text
+                }
+            ]
+        }, {
+            timeout: this.timeout,
+            headers: {
+                'Content-Type': 'application/json',
+                ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+            }
+        });
+
+        const summary = response.data?.choices?.[0]?.message?.content?.trim();
+        if (!summary) {
+            throw new Error(`Empty completion returned by ${this.baseUrl} (model ${this.model})`);
+        }
+
+        return { delivery: 'inline', summary, raw: response.data?.usage };
+    }
+}
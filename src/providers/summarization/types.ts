@@ -0,0 +1,24 @@
+export interface SummarizationRequest {
+    text: string;
+    userId: string;
+    batchId?: string;
+    maxLength: number;
+}
+
+export interface SummarizationResult {
+    /**
+     * 'webhook' - the backend posts the summary to /noais/webhooks/summary on its own
+     * 'inline'  - the summary is returned here and must be saved by the caller
+     */
+    delivery: 'webhook' | 'inline';
+    summary?: string;
+    summaryTitle?: string;
+    raw?: any;
+}
+
+export interface SummarizationProvider {
+    readonly name: string;
+    readonly model: string; // Model or endpoint behind the provider; part of the summary cache key
+
+    summarize(request: SummarizationRequest): Promise<SummarizationResult>;
+}
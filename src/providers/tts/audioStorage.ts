@@ -0,0 +1,21 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Directory that locally generated audio is written to and served from (/noais/audio)
+ */
+export function getAudioOutputDir(): string {
+    return path.resolve(process.env.AUDIO_OUTPUT_DIR || 'audio');
+}
+
+/**
+ * Write an audio file to the output directory and return the public URL it is served at
+ */
+export async function saveAudioFile(fileName: string, data: Buffer): Promise<string> {
+    const outputDir = getAudioOutputDir();
+    await fs.promises.mkdir(outputDir, { recursive: true });
+    await fs.promises.writeFile(path.join(outputDir, fileName), data);
+
+    const baseUrl = (process.env.PUBLIC_BASE_URL || `http://localhost:${process.env.PORT || 3000}`).replace(/\/+$/, '');
+    return `${baseUrl}/noais/audio/${encodeURIComponent(fileName)}`;
+}
@@ -0,0 +1,32 @@
+import { Client } from '@gradio/client';
+import { TtsProvider, TtsRequest, TtsResult } from './types';
+
+/**
+ * Hugging Face Gradio space; the audio URL comes back through the save-audio-url webhook
+ */
+export class GradioTtsProvider implements TtsProvider {
+    readonly name = 'gradio';
+    private space: string;
+    private endpoint: string;
+
+    constructor() {
+        this.space = process.env.GRADIO_SPACE || 'joeljose555/aiScripts';
+        this.endpoint = process.env.GRADIO_TTS_ENDPOINT || '/run_tts_gpu';
+    }
+
+    async synthesize(request: TtsRequest): Promise<TtsResult> {
+        const client = await Client.connect(this.space, {
+            hf_token: process.env.HF_TOKEN as `hf_${string}`
+        });
+
+        const result = await client.predict(this.endpoint, {
+            text: request.text,
+            user_id: request.userId,
+            batch_id: request.batchId,
+            summary_id: request.summaryId,
+            max_length: 700, // Adjust this value based on your needs
+        });
+
+        return { delivery: 'webhook', raw: result.data };
+    }
+}
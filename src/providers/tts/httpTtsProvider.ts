@@ -0,0 +1,68 @@
+import axios from 'axios';
+import { TtsProvider, TtsRequest, TtsResult } from './types';
+import { saveAudioFile } from './audioStorage';
+
+const EXTENSIONS: Record<string, string> = {
+    'audio/mpeg': 'mp3',
+    'audio/mp3': 'mp3',
+    'audio/wav': 'wav',
+    'audio/x-wav': 'wav',
+    'audio/ogg': 'ogg',
+    'audio/aac': 'aac'
+};
+
+/**
+ * Generic HTTP TTS endpoint. It may answer with JSON ({ audioUrl }) or with the audio bytes themselves,
+ * in which case the file is stored locally and served from /noais/audio.
+ */
+export class HttpTtsProvider implements TtsProvider {
+    readonly name = 'http';
+    private url: string;
+    private apiKey?: string;
+    private voice?: string;
+    private timeout: number;
+
+    constructor() {
+        this.url = process.env.TTS_HTTP_URL || 'http://localhost:5002/api/tts';
+        this.apiKey = process.env.TTS_HTTP_API_KEY;
+        this.voice = process.env.TTS_HTTP_VOICE;
+        this.timeout = parseInt(process.env.TTS_HTTP_TIMEOUT_MS || '300000');
+    }
+
+    async synthesize(request: TtsRequest): Promise<TtsResult> {
+        const response = await axios.post(this.url, {
+            text: request.text,
+            voice: this.voice,
+            userId: request.userId,
+            summaryId: request.summaryId,
+            batchId: request.batchId
+        }, {
+            timeout: this.timeout,
+            responseType: 'arraybuffer',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+            }
+        });
+
+        const contentType = String(response.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+        const body = Buffer.from(response.data);
+
+        if (contentType === 'application/json') {
+            const json = JSON.parse(body.toString('utf8'));
+            const audioUrl = json.audioUrl || json.audio_url || json.url;
+            if (!audioUrl) {
+                throw new Error(`TTS endpoint ${this.url} returned JSON without an audio URL`);
+            }
+            return { delivery: 'inline', audioUrl, durationSeconds: json.durationSeconds ?? json.duration, raw: json };
+        }
+
+        if (!contentType.startsWith('audio/')) {
+            throw new Error(`TTS endpoint ${this.url} returned unexpected content type ${contentType || 'unknown'}`);
+        }
+
+        const extension = EXTENSIONS[contentType] || 'bin';
+        const audioUrl = await saveAudioFile(`${request.summaryId}.${extension}`, body);
+        return { delivery: 'inline', audioUrl };
+    }
+}
@@ -0,0 +1,25 @@
+import { logger } from '../../utils/logger';
+import { TtsProvider } from './types';
+import { GradioTtsProvider } from './gradioTtsProvider';
+import { HttpTtsProvider } from './httpTtsProvider';
+import { LocalTtsProvider } from './localTtsProvider';
+
+export * from './types';
+export { getAudioOutputDir } from './audioStorage';
+
+/**
+ * Pick the text-to-speech backend from TTS_PROVIDER (gradio | http | local)
+ */
+export function createTtsProvider(name: string = process.env.TTS_PROVIDER || 'gradio'): TtsProvider {
+    switch (name.toLowerCase()) {
+        case 'gradio':
+            return new GradioTtsProvider();
+        case 'http':
+            return new HttpTtsProvider();
+        case 'local':
+            return new LocalTtsProvider();
+        default:
+            logger.warn(`Unknown TTS_PROVIDER "${name}", falling back to gradio`);
+            return new GradioTtsProvider();
+    }
+}
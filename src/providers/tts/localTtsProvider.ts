@@ -0,0 +1,78 @@
+import { TtsProvider, TtsRequest, TtsResult } from './types';
+import { saveAudioFile } from './audioStorage';
+
+const BITS_PER_SAMPLE = 16;
+const TONE_FREQUENCY_HZ = 440;
+const TONE_AMPLITUDE = 0.05; // Quiet enough to leave playing in the background
+const FADE_SECONDS = 0.05;
+
+/**
+ * Offline stand-in for real speech: writes a WAV whose length matches how long the text would take to read
+ * aloud, so the batch -> audio -> userMixes flow can be exercised end-to-end without a GPU.
+ */
+export class LocalTtsProvider implements TtsProvider {
+    readonly name = 'local';
+    private wordsPerMinute: number;
+    private sampleRate: number;
+    private tone: boolean;
+
+    constructor() {
+        this.wordsPerMinute = parseInt(process.env.TTS_LOCAL_WORDS_PER_MINUTE || '150');
+        this.sampleRate = parseInt(process.env.TTS_LOCAL_SAMPLE_RATE || '8000');
+        this.tone = process.env.TTS_LOCAL_SILENT !== 'true';
+    }
+
+    async synthesize(request: TtsRequest): Promise<TtsResult> {
+        const durationSeconds = this.estimateDuration(request.text);
+        const wav = this.buildWav(durationSeconds);
+        const audioUrl = await saveAudioFile(`${request.summaryId}.wav`, wav);
+
+        return { delivery: 'inline', audioUrl, durationSeconds };
+    }
+
+    estimateDuration(text: string): number {
+        const words = (text || '').trim().split(/\s+/).filter(Boolean).length;
+        return Math.max(1, Math.round((words / this.wordsPerMinute) * 60));
+    }
+
+    /**
+     * Mono 16-bit PCM WAV of the given duration
+     */
+    buildWav(durationSeconds: number): Buffer {
+        const sampleCount = Math.round(durationSeconds * this.sampleRate);
+        const bytesPerSample = BITS_PER_SAMPLE / 8;
+        const dataSize = sampleCount * bytesPerSample;
+        const buffer = Buffer.alloc(44 + dataSize);
+
+        // RIFF header
+        buffer.write('RIFF', 0, 'ascii');
+        buffer.writeUInt32LE(36 + dataSize, 4);
+        buffer.write('WAVE', 8, 'ascii');
+
+        // fmt chunk
+        buffer.write('fmt ', 12, 'ascii');
+        buffer.writeUInt32LE(16, 16); // chunk size
+        buffer.writeUInt16LE(1, 20); // PCM
+        buffer.writeUInt16LE(1, 22); // mono
+        buffer.writeUInt32LE(this.sampleRate, 24);
+        buffer.writeUInt32LE(this.sampleRate * bytesPerSample, 28); // byte rate
+        buffer.writeUInt16LE(bytesPerSample, 32); // block align
+        buffer.writeUInt16LE(BITS_PER_SAMPLE, 34);
+
+        // data chunk (Buffer.alloc leaves it zeroed, i.e. silence)
+        buffer.write('data', 36, 'ascii');
+        buffer.writeUInt32LE(dataSize, 40);
+
+        if (this.tone) {
+            const fadeSamples = Math.min(Math.round(FADE_SECONDS * this.sampleRate), Math.floor(sampleCount / 2));
+            for (let i = 0; i < sampleCount; i++) {
+                // Short fade in/out avoids clicks at the edges
+                const envelope = fadeSamples ? Math.min(1, i / fadeSamples, (sampleCount - 1 - i) / fadeSamples) : 1;
+                const value = Math.sin((2 * Math.PI * TONE_FREQUENCY_HZ * i) / this.sampleRate) * TONE_AMPLITUDE * envelope;
+                buffer.writeInt16LE(Math.round(value * 32767), 44 + i * bytesPerSample);
+            }
+        }
+
+        return buffer;
+    }
+}
@@ -0,0 +1,22 @@
+export interface TtsRequest {
+    text: string;
+    userId: string;
+    summaryId: string;
+    batchId?: string;
+}
+
+export interface TtsResult {
+    /**
+     * 'webhook' - the backend posts the audio URL to /noais/webhooks/save-audio-url on its own
+     * 'inline'  - the audio URL is returned here and must be saved by the caller
+     */
+    delivery: 'webhook' | 'inline';
+    audioUrl?: string;
+    durationSeconds?: number;
+    raw?: any;
+}
+
+export interface TtsProvider {
+    readonly name: string;
+    synthesize(request: TtsRequest): Promise<TtsResult>;
+}
@@ -1,17 +1,85 @@
 import { Router } from 'express';
 import { summarizerController } from '../controller/summarizerController.js';
+import { batchController } from '../controller/batchController.js';
+import { categoryController } from '../controller/categoryController.js';
+import { userPreferenceController } from '../controller/userPreferenceController.js';
+import { mixController } from '../controller/mixController.js';
+import { summaryCacheController } from '../controller/summaryCacheController.js';
+import { deliveryScheduleController } from '../controller/deliveryScheduleController.js';
+import { schedulerController } from '../controller/schedulerController.js';
+import { jobRunController } from '../controller/jobRunController.js';
+import { webhookSubscriptionController } from '../controller/webhookSubscriptionController.js';
+import { validateRequest } from '../middleware/validateRequest.js';
+import { schemas } from '../validation/schemas.js';
 const router = Router();
 
 // Summary generation routes
-router.post('/summaries/generate', summarizerController.generateSummaries);
+router.post('/summaries/generate', validateRequest(schemas.generateSummaries), summarizerController.generateSummaries);
 router.get('/summaries/status', summarizerController.getSchedulerStatus);
-router.post('/summaries/trigger', summarizerController.triggerManualSummary);
+router.post('/summaries/trigger', validateRequest(schemas.triggerManualSummary), summarizerController.triggerManualSummary);
+
+// Scheduler task administration routes
+router.get('/scheduler/tasks', validateRequest(schemas.listSchedulerTasks), schedulerController.listTasks);
+router.post('/scheduler/tasks/:task/pause', validateRequest(schemas.schedulerTaskParams), schedulerController.pauseTask);
+router.post('/scheduler/tasks/:task/resume', validateRequest(schemas.schedulerTaskParams), schedulerController.resumeTask);
+router.put('/scheduler/tasks/:task/schedule', validateRequest(schemas.rescheduleSchedulerTask), schedulerController.rescheduleTask);
 
 // User-specific summary routes
-router.get('/summaries/user/:userId', summarizerController.getUserSummary);
-router.post('/summaries/user/:userId/generate', summarizerController.generateUserSummary);
+router.get('/summaries/user/:userId', validateRequest(schemas.getUserSummary), summarizerController.getUserSummary);
+router.get('/summaries/user/:userId/selection', validateRequest(schemas.getUserSummary), summarizerController.getUserSelectionDebug);
+router.post('/summaries/user/:userId/generate', validateRequest(schemas.generateUserSummary), summarizerController.generateUserSummary);
+
+router.post('/tts/generate', validateRequest(schemas.generateTTS), summarizerController.generateTTS);
+
+// Batch inspection and control routes
+router.get('/batches', validateRequest(schemas.listBatches), batchController.listBatches);
+router.get('/batches/stats', batchController.getBatchStatistics);
+router.get('/batches/:batchId', validateRequest(schemas.batchParams), batchController.getBatch);
+router.get('/batches/:batchId/missing', validateRequest(schemas.batchParams), batchController.getMissingOutputs);
+router.post('/batches/:batchId/cancel', validateRequest(schemas.cancelBatch), batchController.cancelBatch);
+router.post('/batches/:batchId/force-complete', validateRequest(schemas.batchParams), batchController.forceCompleteBatch);
+router.post('/batches/:batchId/retrigger-audio', validateRequest(schemas.batchParams), batchController.retriggerAudio);
+
+// Summary cache routes
+router.get('/summary-cache', summaryCacheController.getStats);
+router.delete('/summary-cache', validateRequest(schemas.invalidateSummaryCache), summaryCacheController.invalidate);
+
+// Category administration routes
+router.get('/categories', validateRequest(schemas.listCategories), categoryController.listCategories);
+router.post('/categories', validateRequest(schemas.createCategory), categoryController.createCategory);
+router.get('/categories/:categoryId', validateRequest(schemas.categoryParams), categoryController.getCategory);
+router.patch('/categories/:categoryId', validateRequest(schemas.updateCategory), categoryController.updateCategory);
+router.delete('/categories/:categoryId', validateRequest(schemas.categoryParams), categoryController.deleteCategory);
+router.post('/categories/:categoryId/merge', validateRequest(schemas.mergeCategory), categoryController.mergeCategory);
+
+// User category preference routes
+router.get('/users/:userId/preferences', validateRequest(schemas.userPreferences), userPreferenceController.getPreferences);
+router.put('/users/:userId/preferences', validateRequest(schemas.replaceUserPreferences), userPreferenceController.replacePreferences);
+router.post('/users/:userId/preferences/categories', validateRequest(schemas.addUserPreferences), userPreferenceController.addPreferences);
+router.delete('/users/:userId/preferences/categories/:categoryId', validateRequest(schemas.removeUserPreference), userPreferenceController.removePreference);
+router.delete('/users/:userId/preferences', validateRequest(schemas.userPreferences), userPreferenceController.deletePreferences);
+
+// User delivery schedule routes
+router.get('/users/:userId/delivery-schedule', validateRequest(schemas.userPreferences), deliveryScheduleController.getSchedule);
+router.put('/users/:userId/delivery-schedule', validateRequest(schemas.replaceDeliverySchedule), deliveryScheduleController.replaceSchedule);
+router.delete('/users/:userId/delivery-schedule', validateRequest(schemas.userPreferences), deliveryScheduleController.deleteSchedule);
+
+// User mix feed routes
+router.get('/users/:userId/mixes', validateRequest(schemas.listUserMixes), mixController.listUserMixes);
+router.get('/mixes/:mixId', validateRequest(schemas.getMix), mixController.getMix);
+
+// Scheduled job run history
+router.get('/jobs', validateRequest(schemas.listJobRuns), jobRunController.listJobRuns);
+router.get('/jobs/:jobRunId', validateRequest(schemas.jobRunParams), jobRunController.getJobRun);
 
-router.post('/tts/generate', summarizerController.generateTTS);
+// Outbound webhook subscription routes
+router.post('/webhook-subscriptions', validateRequest(schemas.createWebhookSubscription), webhookSubscriptionController.createSubscription);
+router.get('/webhook-subscriptions', webhookSubscriptionController.listSubscriptions);
+router.get('/webhook-subscriptions/:subscriptionId', validateRequest(schemas.webhookSubscriptionParams), webhookSubscriptionController.getSubscription);
+router.patch('/webhook-subscriptions/:subscriptionId', validateRequest(schemas.updateWebhookSubscription), webhookSubscriptionController.updateSubscription);
+router.delete('/webhook-subscriptions/:subscriptionId', validateRequest(schemas.webhookSubscriptionParams), webhookSubscriptionController.deleteSubscription);
+router.get('/webhook-subscriptions/:subscriptionId/deliveries', validateRequest(schemas.listWebhookDeliveries), webhookSubscriptionController.listDeliveries);
+router.post('/webhook-deliveries/:deliveryId/redeliver', validateRequest(schemas.redeliverWebhook), webhookSubscriptionController.redeliver);
 
 // Health and status routes
 router.get('/status', summarizerController.getServiceStatus);
@@ -1,10 +1,18 @@
 import { Router } from 'express';
 import { webhookController } from '../controller/webhookController';
+import { verifyWebhookSignature } from '../middleware/verifyWebhookSignature';
+import { idempotency } from '../middleware/idempotency';
+import { validateRequest } from '../middleware/validateRequest';
+import { schemas } from '../validation/schemas';
 const router = Router();
 
+// Every inbound webhook must be signed, and each nonce is accepted once; retries are signed again
+// with a fresh nonce and replayed by the idempotency middleware
+router.use(verifyWebhookSignature);
 
-router.post('/summary', webhookController.handleSummaryWebhook);
-router.post('/save-audio-url', webhookController.handleSaveAudioUrl);
-router.post('/audio-generation-failure', webhookController.handleAudioGenerationFailure);
+// Payloads are validated before an idempotency key is claimed, so a rejected delivery can be corrected and resent
+router.post('/summary', validateRequest(schemas.summaryWebhook), idempotency, webhookController.handleSummaryWebhook);
+router.post('/save-audio-url', validateRequest(schemas.saveAudioUrl), idempotency, webhookController.handleSaveAudioUrl);
+router.post('/audio-generation-failure', validateRequest(schemas.audioGenerationFailure), idempotency, webhookController.handleAudioGenerationFailure);
 
 export default router;
\ No newline at end of file
@@ -1,77 +1,137 @@
 import * as cron from 'node-cron';
 import { summaryService } from '../services/summaryService.js';
+import { categorySummaryService } from '../services/categorySummaryService.js';
 import { batchTimeoutService } from '../services/batchTimeoutService.js';
+import { feedIngestionService } from '../services/feedIngestionService.js';
+import { articleExtractionService } from '../services/articleExtractionService.js';
+import { articleDedupService } from '../services/articleDedupService.js';
+import { outboundWebhookService } from '../services/outboundWebhookService.js';
+import { deliveryScheduleService } from '../services/deliveryScheduleService.js';
+import { leaseLockService, LeaseLockStatus } from '../services/leaseLockService.js';
+import { jobRunService } from '../services/jobRunService.js';
+import { schedulerTaskSettingService } from '../services/schedulerTaskSettingService.js';
+import { JobTrigger } from '../models/jobRun.js';
+import { SchedulerTaskName, SCHEDULER_TASKS } from '../models/schedulerTaskSetting.js';
 import { logger } from '../utils/logger.js';
 
+// Lease names; one instance at a time may run each of these jobs
+const SUMMARY_LOCK = 'summary_generation';
+const BATCH_MAINTENANCE_LOCK = 'batch_maintenance';
+const DELIVERY_JOB = 'delivery_generation';
+
+const TASK_LABELS: Record<SchedulerTaskName, string> = {
+    summary_generation: 'summary generation',
+    batch_maintenance: 'batch maintenance',
+    feed_ingestion: 'feed ingestion',
+    delivery_generation: 'delivery'
+};
+
+interface ManagedTask {
+    cronTask: cron.ScheduledTask | null;
+    cronPattern: string;
+    defaultPattern: string; // From the environment, used until a pattern is saved through the admin API
+    isPaused: boolean;
+}
+
+export interface SchedulerTaskStatus {
+    task: SchedulerTaskName;
+    isScheduled: boolean;
+    isPaused: boolean;
+    cronPattern: string;
+    defaultPattern: string;
+    timezone: string;
+    nextRuns: Date[];
+}
+
 export class SchedulerService {
-    private summaryTask: cron.ScheduledTask | null = null;
-    private batchMaintenanceTask: cron.ScheduledTask | null = null;
+    private tasks: Record<SchedulerTaskName, ManagedTask>;
+    private timezone: string;
     private isRunning: boolean = false;
     private isBatchMaintenanceRunning: boolean = false;
+    private isFeedIngestionRunning: boolean = false;
+    private isDeliveryRunning: boolean = false;
+    private settingsPollMs: number;
+    private settingsPoll: NodeJS.Timeout | null = null;
 
     constructor() {
-        // Get cron schedule from environment variable or default to every 6 hours
-        this.scheduleSummaryGeneration();
-        this.scheduleBatchMaintenance();
-    }
+        this.timezone = process.env.TIMEZONE || 'UTC';
+        this.settingsPollMs = parseInt(process.env.SCHEDULER_SETTINGS_POLL_SECONDS || '60') * 1000;
 
-    /**
-     * Schedule the summary generation task
-     */
-    private scheduleSummaryGeneration(): void {
-        try {
+        // Each schedule can be overridden with its environment variable, and at runtime through the admin API
+        this.tasks = {
             // Default: Run every 6 hours at minute 0 (00:00, 06:00, 12:00, 18:00)
-            // You can override this with SUMMARY_CRON_SCHEDULE environment variable
-            const cronSchedule = process.env.SUMMARY_CRON_SCHEDULE || '0 */6 * * *';
-            
-            logger.info(`Setting up summary generation scheduler with cron pattern: ${cronSchedule}`);
-
-            this.summaryTask = cron.schedule(cronSchedule, async () => {
-                await this.executeSummaryTask();
-            }, {
-                timezone: process.env.TIMEZONE || 'UTC'
-            });
-
-            logger.info('Summary generation scheduler configured successfully');
+            summary_generation: this.createManagedTask(process.env.SUMMARY_CRON_SCHEDULE || '0 */6 * * *'),
+            // Default: Run every 5 minutes to check for timeouts and partial completions
+            batch_maintenance: this.createManagedTask(process.env.BATCH_MAINTENANCE_CRON_SCHEDULE || '*/5 * * * *'),
+            // Default: Run every 10 minutes; each feed is only fetched once its own poll interval has elapsed
+            feed_ingestion: this.createManagedTask(process.env.FEED_INGESTION_CRON_SCHEDULE || '*/10 * * * *'),
+            // Default: Run every 15 minutes; users whose local delivery slot is within DELIVERY_LEAD_MINUTES get their mix generated
+            delivery_generation: this.createManagedTask(process.env.DELIVERY_CRON_SCHEDULE || '*/15 * * * *')
+        };
 
-        } catch (error) {
-            logger.error('Error setting up summary generation scheduler:', error);
-            throw error;
+        for (const task of SCHEDULER_TASKS) {
+            this.scheduleTask(task);
         }
     }
 
+    private createManagedTask(cronPattern: string): ManagedTask {
+        return { cronTask: null, cronPattern, defaultPattern: cronPattern, isPaused: false };
+    }
+
     /**
-     * Schedule the batch maintenance task
+     * Schedule a task with its current pattern, replacing any previous schedule
      */
-    private scheduleBatchMaintenance(): void {
+    private scheduleTask(task: SchedulerTaskName): void {
+        const managed = this.tasks[task];
+
         try {
-            // Default: Run every 5 minutes to check for timeouts and partial completions
-            // You can override this with BATCH_MAINTENANCE_CRON_SCHEDULE environment variable
-            const cronSchedule = process.env.BATCH_MAINTENANCE_CRON_SCHEDULE || '*/5 * * * *';
-            
-            logger.info(`Setting up batch maintenance scheduler with cron pattern: ${cronSchedule}`);
+            logger.info(`Setting up ${TASK_LABELS[task]} scheduler with cron pattern: ${managed.cronPattern}`);
 
-            this.batchMaintenanceTask = cron.schedule(cronSchedule, async () => {
-                await this.executeBatchMaintenanceTask();
+            managed.cronTask?.destroy();
+            managed.cronTask = cron.schedule(managed.cronPattern, async (context) => {
+                if (!await this.confirmSavedSetting(task)) {
+                    return;
+                }
+                // The scheduled fire time, the same on every replica, keys the run's lease slot
+                await this.runTask(task, context.date);
             }, {
-                timezone: process.env.TIMEZONE || 'UTC'
+                timezone: this.timezone
             });
 
-            logger.info('Batch maintenance scheduler configured successfully');
+            if (managed.isPaused) {
+                managed.cronTask.stop();
+            }
+
+            logger.info(`${TASK_LABELS[task]} scheduler configured successfully`);
 
         } catch (error) {
-            logger.error('Error setting up batch maintenance scheduler:', error);
+            logger.error(`Error setting up ${TASK_LABELS[task]} scheduler:`, error);
             throw error;
         }
     }
 
+    private runTask(task: SchedulerTaskName, slot?: Date): Promise<void> {
+        switch (task) {
+            case 'summary_generation':
+                return this.executeSummaryTask('cron', slot);
+            case 'batch_maintenance':
+                return this.executeBatchMaintenanceTask('cron', slot);
+            case 'feed_ingestion':
+                return this.executeFeedIngestionTask();
+            case 'delivery_generation':
+                return this.executeDeliveryTask();
+        }
+    }
+
     /**
-     * Execute the summary generation task with error handling and overlap prevention
+     * Execute the summary generation task with error handling and overlap prevention.
+     * Cron runs pass their fire time so a slot another replica already ran is skipped.
      */
-    private async executeSummaryTask(): Promise<void> {
+    private async executeSummaryTask(trigger: JobTrigger = 'cron', slot?: Date): Promise<void> {
         // Prevent overlapping executions
         if (this.isRunning) {
             logger.warn('Summary generation task is already running, skipping this execution');
+            await jobRunService.recordSkipped(SUMMARY_LOCK, trigger, 'Already running on this instance');
             return;
         }
 
@@ -79,18 +139,33 @@ export class SchedulerService {
         const startTime = new Date();
 
         try {
-            logger.info('=== Starting scheduled summary generation ===');
-            
-            await summaryService.executeScheduledSummaryTask();
-            
-            const duration = Date.now() - startTime.getTime();
-            logger.info(`=== Completed scheduled summary generation in ${duration}ms ===`);
+            // Other replicas fire the same cron; only the lease holder generates, so batches aren't duplicated
+            const lease = await leaseLockService.runExclusive(SUMMARY_LOCK, (signal) => jobRunService.track(SUMMARY_LOCK, trigger, async () => {
+                logger.info('=== Starting scheduled summary generation ===');
+                
+                // Category mode summarizes each category once and shares it across users
+                const result = categorySummaryService.isEnabled()
+                    ? await categorySummaryService.executeScheduledCategoryTask(undefined, signal)
+                    : await summaryService.executeScheduledSummaryTask(undefined, signal);
+
+                // A run that outlived its lease is recorded as failed, since another instance may have run it too
+                signal.throwIfAborted();
+                
+                const duration = Date.now() - startTime.getTime();
+                logger.info(`=== Completed scheduled summary generation in ${duration}ms ===`);
+                return result;
+            }), { slot });
+
+            if (!lease.ran) {
+                logger.warn(`Summary generation skipped on this instance: ${lease.skipReason}`);
+                await jobRunService.recordSkipped(SUMMARY_LOCK, trigger, lease.skipReason);
+            }
 
         } catch (error) {
             logger.error('Error in scheduled summary generation task:', error);
             
             // Optionally send alert to monitoring service
-            await this.sendErrorAlert(error);
+            await this.sendErrorAlert('scheduled_summary_generation', error);
             
         } finally {
             this.isRunning = false;
@@ -100,10 +175,11 @@ export class SchedulerService {
     /**
      * Execute the batch maintenance task with error handling and overlap prevention
      */
-    private async executeBatchMaintenanceTask(): Promise<void> {
+    private async executeBatchMaintenanceTask(trigger: JobTrigger = 'cron', slot?: Date): Promise<void> {
         // Prevent overlapping executions
         if (this.isBatchMaintenanceRunning) {
             logger.warn('Batch maintenance task is already running, skipping this execution');
+            await jobRunService.recordSkipped(BATCH_MAINTENANCE_LOCK, trigger, 'Already running on this instance');
             return;
         }
 
@@ -111,21 +187,116 @@ export class SchedulerService {
         const startTime = new Date();
 
         try {
-            logger.info('=== Starting batch maintenance task ===');
+            const lease = await leaseLockService.runExclusive(BATCH_MAINTENANCE_LOCK, (signal) => jobRunService.track(BATCH_MAINTENANCE_LOCK, trigger, async () => {
+                logger.info('=== Starting batch maintenance task ===');
+                
+                const stats = await batchTimeoutService.runPeriodicMaintenance();
+                signal.throwIfAborted();
+                
+                const duration = Date.now() - startTime.getTime();
+                logger.info(`=== Completed batch maintenance task in ${duration}ms ===`);
+                return { details: { batchStatistics: stats } };
+            }), { slot });
+
+            if (!lease.ran) {
+                logger.warn(`Batch maintenance skipped on this instance: ${lease.skipReason}`);
+                await jobRunService.recordSkipped(BATCH_MAINTENANCE_LOCK, trigger, lease.skipReason);
+            }
+
+        } catch (error) {
+            logger.error('Error in batch maintenance task:', error);
             
-            await batchTimeoutService.runPeriodicMaintenance();
+            // Optionally send alert to monitoring service
+            await this.sendErrorAlert('batch_maintenance', error);
+            
+        } finally {
+            this.isBatchMaintenanceRunning = false;
+        }
+    }
+
+    /**
+     * Execute the feed ingestion task with error handling and overlap prevention
+     */
+    private async executeFeedIngestionTask(): Promise<void> {
+        // Prevent overlapping executions
+        if (this.isFeedIngestionRunning) {
+            logger.warn('Feed ingestion task is already running, skipping this execution');
+            return;
+        }
+
+        this.isFeedIngestionRunning = true;
+        const startTime = new Date();
+
+        try {
+            logger.info('=== Starting feed ingestion task ===');
+            
+            await feedIngestionService.pollDueFeeds();
+
+            // Fill in full text for articles whose feeds only ship a teaser
+            await articleExtractionService.processPendingArticles();
+
+            // Group near-duplicate coverage of the same story across sources
+            await articleDedupService.clusterPendingArticles();
             
             const duration = Date.now() - startTime.getTime();
-            logger.info(`=== Completed batch maintenance task in ${duration}ms ===`);
+            logger.info(`=== Completed feed ingestion task in ${duration}ms ===`);
 
         } catch (error) {
-            logger.error('Error in batch maintenance task:', error);
+            logger.error('Error in feed ingestion task:', error);
             
             // Optionally send alert to monitoring service
-            await this.sendErrorAlert(error);
+            await this.sendErrorAlert('feed_ingestion', error);
             
         } finally {
-            this.isBatchMaintenanceRunning = false;
+            this.isFeedIngestionRunning = false;
+        }
+    }
+
+    /**
+     * Generate mixes for users whose delivery slot is coming up, with overlap prevention
+     */
+    private async executeDeliveryTask(): Promise<void> {
+        // Prevent overlapping executions
+        if (this.isDeliveryRunning) {
+            logger.warn('Delivery task is already running, skipping this execution');
+            return;
+        }
+
+        this.isDeliveryRunning = true;
+        const startTime = new Date();
+
+        try {
+            const due = await deliveryScheduleService.claimDueDeliveries(startTime);
+            if (!due.length) {
+                return;
+            }
+
+            // Only checks that found due users are recorded, so the every-15-minutes no-ops don't flood the history
+            await jobRunService.track(DELIVERY_JOB, 'cron', async () => {
+                logger.info(`=== Starting scheduled delivery generation for ${due.length} users ===`);
+
+                const deliverAtByUser = new Map(due.map(delivery => [delivery.userId, delivery.deliverAt]));
+                const result = categorySummaryService.isEnabled()
+                    ? await categorySummaryService.executeScheduledCategoryTask(deliverAtByUser)
+                    : await summaryService.executeScheduledSummaryTask(deliverAtByUser);
+                
+                // Users left out of the batch (no articles, or generation failed) aren't retried either;
+                // only a run that throws leaves its claims pending
+                await deliveryScheduleService.completeDeliveries(due.map(delivery => delivery.userId));
+                
+                const duration = Date.now() - startTime.getTime();
+                logger.info(`=== Completed scheduled delivery generation in ${duration}ms ===`);
+                return result;
+            });
+
+        } catch (error) {
+            logger.error('Error in scheduled delivery task:', error);
+            
+            // Optionally send alert to monitoring service
+            await this.sendErrorAlert('scheduled_delivery_generation', error);
+            
+        } finally {
+            this.isDeliveryRunning = false;
         }
     }
 
@@ -134,22 +305,24 @@ export class SchedulerService {
      */
     public start(): void {
         try {
-            if (!this.summaryTask) {
-                throw new Error('Summary task not configured');
-            }
-            if (!this.batchMaintenanceTask) {
-                throw new Error('Batch maintenance task not configured');
+            for (const task of SCHEDULER_TASKS) {
+                if (!this.tasks[task].cronTask) {
+                    throw new Error(`${TASK_LABELS[task]} task not configured`);
+                }
             }
 
-            this.summaryTask.start();
-            this.batchMaintenanceTask.start();
-            logger.info('Summary generation and batch maintenance schedulers started');
+            for (const task of SCHEDULER_TASKS) {
+                if (!this.tasks[task].isPaused) {
+                    this.tasks[task].cronTask.start();
+                }
+            }
+            logger.info('Summary generation, batch maintenance, feed ingestion and delivery schedulers started');
 
             // Optionally run immediately on start (for testing/development)
             if (process.env.RUN_SUMMARY_ON_START == 'true') {
                 logger.info('Running summary generation immediately on startup');
                 setTimeout(() => {
-                    this.executeSummaryTask();
+                    this.executeSummaryTask('startup');
                 }, 5000); // Wait 5 seconds after startup
             }
 
@@ -164,25 +337,165 @@ export class SchedulerService {
      */
     public stop(): void {
         try {
-            if (this.summaryTask) {
-                this.summaryTask.stop();
+            if (this.settingsPoll) {
+                clearInterval(this.settingsPoll);
+                this.settingsPoll = null;
             }
-            if (this.batchMaintenanceTask) {
-                this.batchMaintenanceTask.stop();
+            for (const task of SCHEDULER_TASKS) {
+                this.tasks[task].cronTask?.stop();
             }
-            logger.info('Summary generation and batch maintenance schedulers stopped');
+            logger.info('Summary generation, batch maintenance, feed ingestion and delivery schedulers stopped');
         } catch (error) {
             logger.error('Error stopping schedulers:', error);
         }
     }
 
+    /**
+     * Apply pauses and schedules saved through the admin API; call once the database is connected.
+     * watchSavedSettings keeps applying them as other instances change them.
+     */
+    public async applySavedSettings(): Promise<void> {
+        try {
+            const settings = await schedulerTaskSettingService.getAll();
+            const changed = SCHEDULER_TASKS.filter(task => this.applySetting(task, settings.find(setting => setting.task === task)));
+
+            if (changed.length) {
+                logger.info(`Applied saved scheduler settings for ${changed.join(', ')}`);
+            }
+
+        } catch (error) {
+            logger.error('Error applying saved scheduler settings:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Re-apply saved settings every SCHEDULER_SETTINGS_POLL_SECONDS, so a pause, resume or reschedule
+     * made through any instance reaches this one; paused tasks don't fire, so only polling resumes them
+     */
+    public watchSavedSettings(): void {
+        if (this.settingsPoll) {
+            return;
+        }
+
+        this.settingsPoll = setInterval(() => {
+            this.applySavedSettings().catch(() => {
+                // Already logged; keep the current settings until the next poll
+            });
+        }, this.settingsPollMs);
+    }
+
+    /**
+     * Bring a task in line with its saved setting, or its environment schedule when none is saved.
+     * Returns whether its pattern or pause state changed.
+     */
+    private applySetting(task: SchedulerTaskName, setting?: { cronPattern?: string; isPaused?: boolean } | null): boolean {
+        const managed = this.tasks[task];
+        let cronPattern = setting?.cronPattern || managed.defaultPattern;
+        const isPaused = setting?.isPaused ?? false;
+
+        if (!cron.validate(cronPattern)) {
+            logger.warn(`Ignoring invalid saved cron pattern "${cronPattern}" for ${task}`);
+            cronPattern = managed.cronPattern;
+        }
+
+        if (cronPattern === managed.cronPattern && isPaused === managed.isPaused) {
+            return false;
+        }
+
+        managed.cronPattern = cronPattern;
+        managed.isPaused = isPaused;
+        this.scheduleTask(task);
+        return true;
+    }
+
+    /**
+     * Re-read a task's saved setting as it fires; false when another instance paused or rescheduled it
+     * since the last poll, in which case the task is brought in line and this fire is skipped
+     */
+    private async confirmSavedSetting(task: SchedulerTaskName): Promise<boolean> {
+        try {
+            const setting = await schedulerTaskSettingService.get(task);
+            if (this.applySetting(task, setting)) {
+                logger.info(`Skipping ${TASK_LABELS[task]} run: its saved setting changed on another instance`);
+                return false;
+            }
+            return true;
+
+        } catch (error) {
+            // Run on the settings this instance has rather than miss the slot
+            logger.error(`Error reading saved settings for ${TASK_LABELS[task]}, running with current settings:`, error);
+            return true;
+        }
+    }
+
+    /**
+     * Stop a task firing on every instance until it is resumed, including after a restart
+     */
+    public async pauseTask(task: SchedulerTaskName): Promise<SchedulerTaskStatus> {
+        await schedulerTaskSettingService.save(task, { isPaused: true });
+
+        const managed = this.tasks[task];
+        managed.isPaused = true;
+        managed.cronTask?.stop();
+
+        logger.info(`Paused ${TASK_LABELS[task]} scheduler`);
+        return this.getTaskStatus(task);
+    }
+
+    public async resumeTask(task: SchedulerTaskName): Promise<SchedulerTaskStatus> {
+        await schedulerTaskSettingService.save(task, { isPaused: false });
+
+        const managed = this.tasks[task];
+        managed.isPaused = false;
+        managed.cronTask?.start();
+
+        logger.info(`Resumed ${TASK_LABELS[task]} scheduler`);
+        return this.getTaskStatus(task);
+    }
+
+    /**
+     * Replace a task's cron pattern; a paused task stays paused
+     */
+    public async rescheduleTask(task: SchedulerTaskName, cronPattern: string): Promise<SchedulerTaskStatus> {
+        if (!cron.validate(cronPattern)) {
+            throw new Error(`Invalid cron pattern: ${cronPattern}`);
+        }
+
+        await schedulerTaskSettingService.save(task, { cronPattern });
+
+        this.tasks[task].cronPattern = cronPattern;
+        this.scheduleTask(task);
+
+        logger.info(`Rescheduled ${TASK_LABELS[task]} scheduler to ${cronPattern}`);
+        return this.getTaskStatus(task);
+    }
+
+    /**
+     * A task's schedule and its next run times in the scheduler's timezone; a paused task has none
+     */
+    public getTaskStatus(task: SchedulerTaskName, nextRunCount: number = 5): SchedulerTaskStatus {
+        const managed = this.tasks[task];
+        const state = managed.cronTask?.getStatus();
+
+        return {
+            task,
+            isScheduled: state === 'idle' || state === 'running',
+            isPaused: managed.isPaused,
+            cronPattern: managed.cronPattern,
+            defaultPattern: managed.defaultPattern,
+            timezone: this.timezone,
+            nextRuns: this.getNextRunTimes(task, nextRunCount)
+        };
+    }
+
     /**
      * Run summary generation manually (for testing or manual triggers)
      */
     public async runManually(): Promise<void> {
         try {
             logger.info('Running summary generation manually');
-            await this.executeSummaryTask();
+            await this.executeSummaryTask('manual');
         } catch (error) {
             logger.error('Error in manual summary generation:', error);
             throw error;
@@ -190,96 +503,133 @@ export class SchedulerService {
     }
 
     /**
-     * Get scheduler status
+     * Get scheduler status; schedules are this instance's, lease holders are read from Mongo
      */
-    public getStatus(): { 
+    public async getStatus(): Promise<{ 
+        instanceId: string;
         summaryTask: {
             isScheduled: boolean; 
+            isPaused: boolean;
             isRunning: boolean; 
             cronPattern: string;
             nextRun: Date | null;
+            nextRuns: Date[];
+            lock: LeaseLockStatus;
         };
         batchMaintenance: {
             isScheduled: boolean;
+            isPaused: boolean;
             isRunning: boolean;
             cronPattern: string;
+            nextRuns: Date[];
+            lock: LeaseLockStatus;
         };
-    } {
+        feedIngestion: {
+            isScheduled: boolean;
+            isPaused: boolean;
+            isRunning: boolean;
+            cronPattern: string;
+            nextRuns: Date[];
+        };
+        delivery: {
+            isScheduled: boolean;
+            isPaused: boolean;
+            isRunning: boolean;
+            cronPattern: string;
+            nextRuns: Date[];
+            leadMinutes: number;
+        };
+    }> {
+        const summary = this.getTaskStatus('summary_generation');
+        const batchMaintenance = this.getTaskStatus('batch_maintenance');
+        const feedIngestion = this.getTaskStatus('feed_ingestion');
+        const delivery = this.getTaskStatus('delivery_generation');
+        const [summaryLock, batchMaintenanceLock] = await Promise.all([
+            leaseLockService.getStatus(SUMMARY_LOCK),
+            leaseLockService.getStatus(BATCH_MAINTENANCE_LOCK)
+        ]);
+
         return {
+            instanceId: leaseLockService.getOwnerId(),
             summaryTask: {
-                isScheduled: this.summaryTask ? this.summaryTask.getStatus() === 'scheduled' : false,
+                isScheduled: summary.isScheduled,
+                isPaused: summary.isPaused,
                 isRunning: this.isRunning,
-                cronPattern: process.env.SUMMARY_CRON_SCHEDULE || '0 */6 * * *',
-                nextRun: this.summaryTask ? this.getNextRunTime() : null
+                cronPattern: summary.cronPattern,
+                nextRun: summary.nextRuns[0] ?? null,
+                nextRuns: summary.nextRuns,
+                lock: summaryLock
             },
             batchMaintenance: {
-                isScheduled: this.batchMaintenanceTask ? this.batchMaintenanceTask.getStatus() === 'scheduled' : false,
+                isScheduled: batchMaintenance.isScheduled,
+                isPaused: batchMaintenance.isPaused,
                 isRunning: this.isBatchMaintenanceRunning,
-                cronPattern: process.env.BATCH_MAINTENANCE_CRON_SCHEDULE || '*/5 * * * *'
+                cronPattern: batchMaintenance.cronPattern,
+                nextRuns: batchMaintenance.nextRuns,
+                lock: batchMaintenanceLock
+            },
+            feedIngestion: {
+                isScheduled: feedIngestion.isScheduled,
+                isPaused: feedIngestion.isPaused,
+                isRunning: this.isFeedIngestionRunning,
+                cronPattern: feedIngestion.cronPattern,
+                nextRuns: feedIngestion.nextRuns
+            },
+            delivery: {
+                isScheduled: delivery.isScheduled,
+                isPaused: delivery.isPaused,
+                isRunning: this.isDeliveryRunning,
+                cronPattern: delivery.cronPattern,
+                nextRuns: delivery.nextRuns,
+                leadMinutes: deliveryScheduleService.getLeadMinutes()
             }
         };
     }
 
     /**
-     * Get next scheduled run time (approximate)
+     * Next run times of a task, evaluated by node-cron against its pattern in the scheduler's timezone
      */
-    private getNextRunTime(): Date | null {
+    private getNextRunTimes(task: SchedulerTaskName, count: number): Date[] {
+        const managed = this.tasks[task];
+        if (managed.isPaused || !managed.cronTask) {
+            return [];
+        }
+
         try {
-            // This is a simplified calculation - for precise next run time,
-            // you might want to use a more sophisticated cron parser
-            const cronPattern = process.env.SUMMARY_CRON_SCHEDULE || '0 */6 * * *';
-            
-            // For the default pattern '0 */6 * * *', calculate next 6-hour boundary
-            if (cronPattern === '0 */6 * * *') {
-                const now = new Date();
-                const nextHour = Math.ceil(now.getHours() / 6) * 6;
-                const nextRun = new Date(now);
-                nextRun.setHours(nextHour, 0, 0, 0);
-                
-                // If next run is in the past, add 6 hours
-                if (nextRun <= now) {
-                    nextRun.setHours(nextRun.getHours() + 6);
-                }
-                
-                return nextRun;
-            }
-            
-            return null; // For custom cron patterns, return null
-            
+            return managed.cronTask.getNextRuns(count);
         } catch (error) {
-            logger.error('Error calculating next run time:', error);
-            return null;
+            logger.error(`Error calculating next run times for ${task}:`, error);
+            return [];
         }
     }
 
     /**
-     * Send error alert (can be extended to integrate with monitoring services)
+     * Post the failure to ALERT_WEBHOOK_URL, if set, and notify subscribers of the scheduler.task_failed webhook event
      */
-    private async sendErrorAlert(error: any): Promise<void> {
+    private async sendErrorAlert(task: string, error: any): Promise<void> {
         try {
-            // This is a placeholder for error alerting
-            // You can integrate with services like Slack, Discord, email, etc.
-            
             const alertData = {
                 service: 'summaryService',
-                task: 'scheduled_summary_generation',
-                error: error.message || 'Unknown error',
+                task,
+                error: error?.message || 'Unknown error',
                 timestamp: new Date().toISOString(),
                 environment: process.env.NODE_ENV || 'development'
             };
 
-            logger.error('Summary generation task failed:', alertData);
+            logger.error(`Scheduled task ${task} failed:`, alertData);
 
-            // Example: Send to external monitoring service
+            // Existing monitoring hook, kept alongside the subscription event
             const alertUrl = process.env.ALERT_WEBHOOK_URL;
             if (alertUrl) {
                 const axios = await import('axios');
                 await axios.default.post(alertUrl, alertData, {
                     timeout: 5000,
                     headers: { 'Content-Type': 'application/json' }
-                });
+                }).catch(error => logger.error('Error posting alert to ALERT_WEBHOOK_URL:', error));
             }
 
+            await outboundWebhookService.publish('scheduler.task_failed', alertData);
+
         } catch (alertError) {
             logger.error('Error sending alert:', alertError);
         }
@@ -0,0 +1,148 @@
+import { countWords } from './commonFunctions';
+import { logger } from '../utils/logger';
+
+export interface BudgetCandidate {
+    score: number;
+    selected: boolean;
+    wordAllowance?: number;
+    titleAllowance?: number;
+    droppedForBudget?: boolean;
+    article: { title?: string; description?: string; fullText?: string };
+}
+
+export interface BudgetCategory {
+    categoryId: string;
+    weight: number;
+    candidates: BudgetCandidate[];
+}
+
+export interface BudgetCategoryPlan {
+    categoryId: string;
+    wordShare: number;
+    wordsUsed: number;
+    articleCount: number;
+}
+
+export interface BudgetPlan {
+    wordBudget: number;
+    wordsUsed: number;
+    articleCount: number;
+    categories: BudgetCategoryPlan[];
+}
+
+// Longest body an article may contribute, however much budget is left
+const MAX_ARTICLE_BODY_WORDS = 500;
+const TITLE_WORDS = 20;
+
+export class ArticleBudgetService {
+    private wordBudget: number;
+    private minArticleWords: number;
+
+    constructor() {
+        // SUMMARY_INPUT_TOKEN_BUDGET is converted at ~0.75 words per token; the tighter of the two wins
+        const words = parseInt(process.env.SUMMARY_INPUT_WORD_BUDGET || '3000');
+        const tokens = parseInt(process.env.SUMMARY_INPUT_TOKEN_BUDGET || '0');
+        this.wordBudget = tokens > 0 ? Math.min(words, Math.floor(tokens * 0.75)) : words;
+        this.minArticleWords = parseInt(process.env.MIN_ARTICLE_WORDS || '40');
+    }
+
+    getWordBudget(): number {
+        return this.wordBudget;
+    }
+
+    /**
+     * Fit the ranked, pre-selected candidates of every category into the word budget, titles included.
+     *
+     * Every category is guaranteed room for its best article, so each is represented even when the budget
+     * is tight; when it is, the per-article minimum and the title allowance shrink to fit instead. The rest of
+     * the budget is shared by weight, further articles are added while a category's share allows the minimum
+     * each, and each kept article's body is truncated to its slice. Words a category doesn't use are handed
+     * to the highest-scoring articles that were cut.
+     *
+     * Sets selected, wordAllowance, titleAllowance and droppedForBudget on the candidates.
+     */
+    pack(categories: BudgetCategory[]): BudgetPlan {
+        const represented = categories.filter(category => category.candidates.some(entry => entry.selected));
+        const totalWeight = represented.reduce((sum, category) => sum + category.weight, 0) || 1;
+
+        // Each category's guaranteed slice; a tight one gives titles at most a third of it
+        const slice = Math.floor(this.wordBudget / Math.max(1, represented.length));
+        const titleCap = Math.min(TITLE_WORDS, Math.max(1, Math.floor(slice / 3)));
+        const floorWords = Math.max(1, Math.min(this.minArticleWords, slice - titleCap));
+        const articleFloor = floorWords + titleCap;
+        const weightedWords = Math.max(0, this.wordBudget - represented.length * articleFloor);
+
+        const plans: BudgetCategoryPlan[] = [];
+        const cut: BudgetCandidate[] = [];
+        let wordsUsed = 0;
+
+        for (const category of represented) {
+            const wordShare = articleFloor + Math.floor(weightedWords * category.weight / totalWeight);
+            const chosen = category.candidates.filter(entry => entry.selected);
+
+            // As many articles as the share can give a useful length, never fewer than one
+            const count = Math.max(1, Math.min(chosen.length, Math.floor(wordShare / articleFloor)));
+            const perArticle = Math.floor(wordShare / count) - titleCap;
+
+            let categoryWords = 0;
+            chosen.forEach((entry, index) => {
+                if (index >= count) {
+                    entry.selected = false;
+                    entry.droppedForBudget = true;
+                    entry.titleAllowance = titleCap;
+                    cut.push(entry);
+                    return;
+                }
+
+                entry.titleAllowance = titleCap;
+                entry.wordAllowance = Math.min(MAX_ARTICLE_BODY_WORDS, perArticle, this.bodyWords(entry));
+                categoryWords += entry.wordAllowance + this.titleWords(entry);
+            });
+
+            wordsUsed += categoryWords;
+            plans.push({ categoryId: category.categoryId, wordShare, wordsUsed: categoryWords, articleCount: count });
+        }
+
+        // Spend what's left on the best articles that didn't fit their category's share
+        cut.sort((a, b) => b.score - a.score);
+        for (const entry of cut) {
+            const remaining = this.wordBudget - wordsUsed - this.titleWords(entry);
+            const allowance = Math.min(MAX_ARTICLE_BODY_WORDS, this.bodyWords(entry), remaining);
+            if (remaining < 0 || allowance < Math.min(floorWords, this.bodyWords(entry))) continue;
+
+            entry.selected = true;
+            entry.droppedForBudget = false;
+            entry.wordAllowance = allowance;
+            wordsUsed += allowance + this.titleWords(entry);
+
+            const plan = plans.find(p => categories.find(c => c.categoryId === p.categoryId)?.candidates.includes(entry));
+            if (plan) {
+                plan.wordsUsed += allowance + this.titleWords(entry);
+                plan.articleCount++;
+            }
+        }
+
+        // Only possible with fewer than two words per category: one title word and one body word each
+        if (wordsUsed > this.wordBudget) {
+            logger.warn(`Word budget of ${this.wordBudget} is too small for ${represented.length} categories; summary input uses ${wordsUsed} words`);
+        }
+
+        return {
+            wordBudget: this.wordBudget,
+            wordsUsed,
+            articleCount: plans.reduce((sum, plan) => sum + plan.articleCount, 0),
+            categories: plans
+        };
+    }
+
+    private bodyWords(entry: BudgetCandidate): number {
+        return countWords(entry.article.fullText || entry.article.description || '');
+    }
+
+    private titleWords(entry: BudgetCandidate): number {
+        return Math.min(entry.titleAllowance ?? TITLE_WORDS, countWords(entry.article.title || ''));
+    }
+}
+
+// Export singleton instance
+export const articleBudgetService = new ArticleBudgetService();
@@ -0,0 +1,235 @@
+import { logger } from '../utils/logger';
+import NewsArticle from '../models/newsArticles';
+
+// Query parameters that only ever track where a click came from. Names like ref, cid or feed identify the
+// article itself on some sites, so they're only stripped when configured for a feed or through the environment.
+const TRACKING_PARAM_PATTERN = /^(utm_\w+|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|igshid)$/i;
+
+const SHINGLE_SIZE = 3;
+const SIGNATURE_SIZE = 64;
+const BAND_COUNT = 16; // 16 bands x 4 rows: pairs above ~0.5 Jaccard become candidates with high probability
+const ROWS_PER_BAND = SIGNATURE_SIZE / BAND_COUNT;
+const MAX_SHINGLE_WORDS = 400;
+
+export class ArticleDedupService {
+    private similarityThreshold: number;
+    private clusterWindowHours: number;
+    private batchSize: number;
+    private seeds: number[];
+    private extraTrackingParams: string[];
+
+    constructor() {
+        this.similarityThreshold = parseFloat(process.env.DEDUP_SIMILARITY_THRESHOLD || '0.5');
+        this.clusterWindowHours = parseInt(process.env.DEDUP_CLUSTER_WINDOW_HOURS || '72');
+        this.batchSize = parseInt(process.env.DEDUP_BATCH_SIZE || '200');
+        this.extraTrackingParams = this.parseParamNames((process.env.DEDUP_TRACKING_PARAMS || '').split(','));
+
+        // Fixed seeds so signatures stay comparable across restarts
+        this.seeds = Array.from({ length: SIGNATURE_SIZE }, (_, i) => this.mix32(0x9e3779b9 ^ (i + 1)));
+    }
+
+    /**
+     * Normalise an article URL so the same story linked with different tracking
+     * parameters, hosts or trailing slashes maps to one key. feedTrackingParams adds
+     * parameter names a feed is known to use for tracking only.
+     */
+    normalizeUrl(rawUrl: string, feedTrackingParams: string[] = []): string {
+        try {
+            const url = new URL(rawUrl.trim());
+            const extraParams = new Set([...this.extraTrackingParams, ...this.parseParamNames(feedTrackingParams)]);
+
+            url.protocol = 'https:';
+            url.hostname = url.hostname.toLowerCase().replace(/^(www|m|amp)\./, '');
+            url.hash = '';
+            url.port = '';
+
+            const params = Array.from(url.searchParams.entries())
+                .filter(([key]) => !TRACKING_PARAM_PATTERN.test(key) && !extraParams.has(key.toLowerCase()))
+                .sort(([a], [b]) => a.localeCompare(b));
+            url.search = '';
+            for (const [key, value] of params) {
+                url.searchParams.append(key, value);
+            }
+
+            let pathname = url.pathname.replace(/\/amp\/?$/i, '/').replace(/\/{2,}/g, '/');
+            if (pathname.length > 1) {
+                pathname = pathname.replace(/\/+$/, '');
+            }
+            url.pathname = pathname;
+
+            return url.toString();
+        } catch {
+            return rawUrl.trim();
+        }
+    }
+
+    /**
+     * MinHash signature over word shingles of title + body text
+     */
+    computeSignature(title: string, text: string): number[] | null {
+        const words = `${title || ''} ${text || ''}`
+            .toLowerCase()
+            .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+            .split(/\s+/)
+            .filter(Boolean)
+            .slice(0, MAX_SHINGLE_WORDS);
+
+        if (words.length < SHINGLE_SIZE) {
+            return null;
+        }
+
+        const signature = new Array<number>(SIGNATURE_SIZE).fill(0xffffffff);
+
+        for (let i = 0; i <= words.length - SHINGLE_SIZE; i++) {
+            const base = this.fnv1a(words.slice(i, i + SHINGLE_SIZE).join(' '));
+            for (let j = 0; j < SIGNATURE_SIZE; j++) {
+                const hash = this.mix32(base ^ this.seeds[j]);
+                if (hash < signature[j]) {
+                    signature[j] = hash;
+                }
+            }
+        }
+
+        return signature;
+    }
+
+    /**
+     * Split a signature into LSH band keys; articles sharing any key are clustering candidates
+     */
+    computeBands(signature: number[]): string[] {
+        const bands: string[] = [];
+        for (let band = 0; band < BAND_COUNT; band++) {
+            const rows = signature.slice(band * ROWS_PER_BAND, (band + 1) * ROWS_PER_BAND);
+            bands.push(`${band}:${rows.map(row => row.toString(36)).join('.')}`);
+        }
+        return bands;
+    }
+
+    /**
+     * Estimated Jaccard similarity between two signatures
+     */
+    estimateSimilarity(a: number[], b: number[]): number {
+        if (!a?.length || a.length !== b?.length) return 0;
+
+        let matches = 0;
+        for (let i = 0; i < a.length; i++) {
+            if (a[i] === b[i]) matches++;
+        }
+        return matches / a.length;
+    }
+
+    /**
+     * Assign a storyClusterId to every article that has finished extraction but hasn't been clustered yet
+     */
+    async clusterPendingArticles(): Promise<{ clustered: number; joined: number }> {
+        const counts = { clustered: 0, joined: 0 };
+
+        try {
+            // Wait for full text where extraction is still pending, otherwise teasers would be compared
+            const pending = await NewsArticle.find({
+                storyClusterId: { $exists: false },
+                extractionStatus: { $ne: 'pending' }
+            })
+                .sort({ publishedAt: 1 })
+                .limit(this.batchSize)
+                .lean();
+
+            logger.info(`Found ${pending.length} articles pending story clustering`);
+
+            for (const article of pending) {
+                const joined = await this.assignCluster(article);
+                counts.clustered++;
+                if (joined) counts.joined++;
+            }
+
+            logger.info(`Story clustering finished: ${counts.clustered} articles clustered, ${counts.joined} joined an existing story`);
+            return counts;
+
+        } catch (error) {
+            logger.error('Error clustering articles:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Cluster one article against recent articles; returns true when it joined an existing story
+     */
+    private async assignCluster(article: any): Promise<boolean> {
+        const signature = this.computeSignature(article.title, article.fullText || article.description);
+        const ownClusterId = article._id.toString();
+
+        if (!signature) {
+            await NewsArticle.updateOne({ _id: article._id }, { storyClusterId: ownClusterId });
+            return false;
+        }
+
+        const bands = this.computeBands(signature);
+        const publishedAt = new Date(article.publishedAt);
+        const windowMs = this.clusterWindowHours * 60 * 60 * 1000;
+
+        const candidates = await NewsArticle.find({
+            _id: { $ne: article._id },
+            storyClusterId: { $exists: true },
+            lshBands: { $in: bands },
+            publishedAt: {
+                $gte: new Date(publishedAt.getTime() - windowMs),
+                $lte: new Date(publishedAt.getTime() + windowMs)
+            }
+        })
+            .select('+minHashSignature storyClusterId')
+            .lean();
+
+        let bestClusterId: string | null = null;
+        let bestSimilarity = 0;
+
+        for (const candidate of candidates) {
+            const similarity = this.estimateSimilarity(signature, candidate.minHashSignature as number[]);
+            if (similarity >= this.similarityThreshold && similarity > bestSimilarity) {
+                bestSimilarity = similarity;
+                bestClusterId = candidate.storyClusterId;
+            }
+        }
+
+        await NewsArticle.updateOne(
+            { _id: article._id },
+            {
+                storyClusterId: bestClusterId || ownClusterId,
+                minHashSignature: signature,
+                lshBands: bands
+            }
+        );
+
+        if (bestClusterId) {
+            logger.info(`Article ${article._id} joined story cluster ${bestClusterId} (similarity ${bestSimilarity.toFixed(2)})`);
+        }
+
+        return !!bestClusterId;
+    }
+
+    private parseParamNames(names: string[]): string[] {
+        return names.map(name => name.trim().toLowerCase()).filter(Boolean);
+    }
+
+    private fnv1a(value: string): number {
+        let hash = 0x811c9dc5;
+        for (let i = 0; i < value.length; i++) {
+            hash ^= value.charCodeAt(i);
+            hash = Math.imul(hash, 0x01000193);
+        }
+        return hash >>> 0;
+    }
+
+    // murmur3 finaliser: cheap, well-distributed 32-bit mixing
+    private mix32(value: number): number {
+        let h = value >>> 0;
+        h ^= h >>> 16;
+        h = Math.imul(h, 0x85ebca6b);
+        h ^= h >>> 13;
+        h = Math.imul(h, 0xc2b2ae35);
+        h ^= h >>> 16;
+        return h >>> 0;
+    }
+}
+
+// Export singleton instance
+export const articleDedupService = new ArticleDedupService();
@@ -0,0 +1,320 @@
+import axios from 'axios';
+import * as cheerio from 'cheerio';
+import type { Element } from 'domhandler';
+import { logger } from '../utils/logger';
+import NewsArticle from '../models/newsArticles';
+import { countWords } from './commonFunctions';
+
+export interface DomainExtractionRule {
+    contentSelector?: string; // Container holding the article body
+    removeSelectors?: string[]; // Extra boilerplate to drop before reading text
+}
+
+export interface ExtractionResult {
+    text: string;
+    wordCount: number;
+    method: 'domain_rule' | 'heuristic';
+}
+
+/**
+ * Known publishers whose markup the generic heuristic gets wrong.
+ * Extend or override with the ARTICLE_EXTRACTION_RULES environment variable (JSON keyed by hostname).
+ */
+const DEFAULT_DOMAIN_RULES: Record<string, DomainExtractionRule> = {
+    'bbc.com': {
+        contentSelector: 'article [data-component="text-block"]',
+        removeSelectors: ['[data-component="links-block"]']
+    },
+    'theguardian.com': {
+        contentSelector: '#maincontent, [data-gu-name="body"]',
+        removeSelectors: ['aside', 'figure']
+    },
+    'reuters.com': {
+        contentSelector: '[data-testid="ArticleBody"], .article-body__content__17Yit',
+        removeSelectors: ['[data-testid="Toolbar"]']
+    }
+};
+
+// Elements that never hold article prose
+const BOILERPLATE_TAGS = 'script, style, noscript, iframe, nav, header, footer, aside, form, button, svg, template';
+
+// class/id fragments that mark navigation, ads, comments and similar clutter
+const NEGATIVE_PATTERN = /comment|disqus|advert|\bads?\b|ad-|sponsor|promo|share|social|related|recommend|newsletter|subscribe|signup|sidebar|footer|masthead|menu|nav|breadcrumb|cookie|consent|popup|modal|banner|outbrain|taboola/i;
+
+// class/id fragments that usually wrap the article body
+const POSITIVE_PATTERN = /article|body|content|entry|main|post|story|text|prose/i;
+
+const MIN_PARAGRAPH_LENGTH = 25;
+
+export class ArticleExtractionService {
+    private domainRules: Record<string, DomainExtractionRule>;
+    private minWordCount: number;
+    private batchSize: number;
+
+    constructor() {
+        this.domainRules = { ...DEFAULT_DOMAIN_RULES, ...this.loadDomainRulesFromEnv() };
+        this.minWordCount = parseInt(process.env.EXTRACTION_MIN_WORDS || '80');
+        this.batchSize = parseInt(process.env.EXTRACTION_BATCH_SIZE || '25');
+    }
+
+    /**
+     * Extract readable article text from raw HTML.
+     * Pure function of its inputs; exercised against the saved pages in test/fixtures/extraction.
+     */
+    extractFromHtml(html: string, url: string): ExtractionResult | null {
+        const $ = cheerio.load(html);
+        const rule = this.getRuleForUrl(url);
+
+        $(BOILERPLATE_TAGS).remove();
+        if (rule?.removeSelectors?.length) {
+            $(rule.removeSelectors.join(', ')).remove();
+        }
+
+        // Domain override wins whenever it matches something
+        if (rule?.contentSelector) {
+            const text = this.collectText($, $<Element, string>(rule.contentSelector));
+            if (countWords(text) >= this.minWordCount) {
+                return { text, wordCount: countWords(text), method: 'domain_rule' };
+            }
+        }
+
+        this.removeNegativeBlocks($);
+
+        const candidate = this.findBestCandidate($);
+        if (!candidate) {
+            return null;
+        }
+
+        const text = this.collectText($, candidate);
+        const wordCount = countWords(text);
+
+        if (wordCount < this.minWordCount) {
+            return null;
+        }
+
+        return { text, wordCount, method: 'heuristic' };
+    }
+
+    /**
+     * Fetch a single article and store its full text, falling back to the feed description
+     */
+    async extractArticle(article: any): Promise<'extracted' | 'fallback' | 'failed'> {
+        let result: ExtractionResult | null = null;
+
+        try {
+            const html = await this.fetchHtml(article.url);
+            result = this.extractFromHtml(html, article.url);
+        } catch (error) {
+            logger.warn(`Failed to fetch article ${article.url}: ${error instanceof Error ? error.message : error}`);
+        }
+
+        if (result) {
+            await NewsArticle.updateOne(
+                { _id: article._id },
+                {
+                    fullText: result.text,
+                    wordCount: result.wordCount,
+                    extractionStatus: 'extracted',
+                    extractedAt: new Date()
+                }
+            );
+            logger.info(`Extracted ${result.wordCount} words from ${article.url} (${result.method})`);
+            return 'extracted';
+        }
+
+        // Extraction failed: keep the teaser so downstream summarization has something better than the title
+        const description = (article.description || '').trim();
+        const status = description ? 'fallback' : 'failed';
+
+        await NewsArticle.updateOne(
+            { _id: article._id },
+            {
+                ...(description ? { fullText: description, wordCount: countWords(description) } : {}),
+                extractionStatus: status,
+                extractedAt: new Date()
+            }
+        );
+
+        logger.info(`Extraction ${status} for ${article.url}`);
+        return status;
+    }
+
+    /**
+     * Run extraction over articles that haven't been processed yet
+     */
+    async processPendingArticles(limit: number = this.batchSize): Promise<{ extracted: number; fallback: number; failed: number }> {
+        const counts = { extracted: 0, fallback: 0, failed: 0 };
+
+        try {
+            // null also matches articles stored before extraction existed, which have no status at all
+            const pending = await NewsArticle.find({
+                extractionStatus: { $in: ['pending', null] },
+                $or: [{ fullText: { $exists: false } }, { fullText: '' }, { fullText: null }]
+            })
+                .sort({ publishedAt: -1 })
+                .limit(limit)
+                .lean();
+
+            logger.info(`Found ${pending.length} articles pending full-text extraction`);
+
+            for (const article of pending) {
+                const status = await this.extractArticle(article);
+                counts[status]++;
+            }
+
+            logger.info(`Article extraction finished: ${counts.extracted} extracted, ${counts.fallback} fell back to description, ${counts.failed} failed`);
+            return counts;
+
+        } catch (error) {
+            logger.error('Error processing pending article extraction:', error);
+            throw error;
+        }
+    }
+
+    private async fetchHtml(url: string): Promise<string> {
+        const response = await axios.get<string>(url, {
+            timeout: parseInt(process.env.EXTRACTION_FETCH_TIMEOUT_MS || '15000'),
+            responseType: 'text',
+            maxContentLength: 5 * 1024 * 1024,
+            headers: {
+                'User-Agent': process.env.FEED_USER_AGENT || 'summaryService/1.0 (+rss ingestion)',
+                'Accept': 'text/html,application/xhtml+xml'
+            }
+        });
+
+        const contentType = String(response.headers['content-type'] || '');
+        if (contentType && !contentType.includes('html')) {
+            throw new Error(`Unexpected content type ${contentType}`);
+        }
+
+        return response.data;
+    }
+
+    private getRuleForUrl(url: string): DomainExtractionRule | undefined {
+        let hostname: string;
+        try {
+            hostname = new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+        } catch {
+            return undefined;
+        }
+
+        // Match the host itself, then each parent domain (news.example.co.uk -> example.co.uk -> co.uk)
+        const parts = hostname.split('.');
+        for (let i = 0; i < parts.length - 1; i++) {
+            const rule = this.domainRules[parts.slice(i).join('.')];
+            if (rule) return rule;
+        }
+        return undefined;
+    }
+
+    private removeNegativeBlocks($: cheerio.CheerioAPI): void {
+        $('[class], [id]').each((_, element: Element) => {
+            const node = $(element);
+            const tag = element.tagName.toLowerCase();
+            if (tag === 'body' || tag === 'html' || tag === 'article') return;
+
+            const signature = `${node.attr('class') || ''} ${node.attr('id') || ''}`;
+            if (NEGATIVE_PATTERN.test(signature) && !POSITIVE_PATTERN.test(signature)) {
+                node.remove();
+            }
+        });
+    }
+
+    /**
+     * Readability-style scoring: paragraphs vote for their parent (full score) and grandparent (half score),
+     * adjusted by class/id hints and penalised by link density.
+     */
+    private findBestCandidate($: cheerio.CheerioAPI): cheerio.Cheerio<Element> | null {
+        const scores = new Map<Element, number>();
+
+        $('p').each((_, element) => {
+            const paragraph = $(element);
+            const text = paragraph.text().trim();
+            if (text.length < MIN_PARAGRAPH_LENGTH) return;
+
+            const score = 1 + (text.match(/,/g)?.length || 0) + Math.min(Math.floor(text.length / 100), 3);
+
+            const parent = paragraph.parent().get(0);
+            const grandparent = paragraph.parent().parent().get(0);
+
+            if (parent) scores.set(parent, (scores.get(parent) ?? this.initialScore($, parent)) + score);
+            if (grandparent) scores.set(grandparent, (scores.get(grandparent) ?? this.initialScore($, grandparent)) + score / 2);
+        });
+
+        let best: Element | null = null;
+        let bestScore = 0;
+
+        for (const [node, score] of scores) {
+            const adjusted = score * (1 - this.linkDensity($, $(node)));
+            if (adjusted > bestScore) {
+                best = node;
+                bestScore = adjusted;
+            }
+        }
+
+        return best ? $(best) : null;
+    }
+
+    private initialScore($: cheerio.CheerioAPI, node: Element): number {
+        const element = $(node);
+        const tag = node.tagName.toLowerCase();
+        let score = tag === 'article' ? 10 : tag === 'main' ? 5 : 0;
+
+        const signature = `${element.attr('class') || ''} ${element.attr('id') || ''}`;
+        if (POSITIVE_PATTERN.test(signature)) score += 25;
+        if (NEGATIVE_PATTERN.test(signature)) score -= 25;
+
+        return score;
+    }
+
+    private linkDensity($: cheerio.CheerioAPI, element: cheerio.Cheerio<Element>): number {
+        const textLength = element.text().trim().length;
+        if (!textLength) return 1;
+
+        let linkLength = 0;
+        element.find('a').each((_, link) => {
+            linkLength += $(link).text().trim().length;
+        });
+
+        return Math.min(linkLength / textLength, 1);
+    }
+
+    /**
+     * Join block-level text inside the chosen container into clean paragraphs
+     */
+    private collectText($: cheerio.CheerioAPI, container: cheerio.Cheerio<Element>): string {
+        const blocks: string[] = [];
+
+        container.find('p, h2, h3, h4, li, blockquote, pre').each((_, element) => {
+            const node = $(element);
+            // Skip blocks nested in another block we already collect (e.g. <p> inside <blockquote>)
+            if (node.parents('p, li, blockquote').length) return;
+
+            const text = node.text().replace(/\s+/g, ' ').trim();
+            if (text && this.linkDensity($, node) < 0.5) {
+                blocks.push(text);
+            }
+        });
+
+        if (!blocks.length) {
+            return container.text().replace(/\s+/g, ' ').trim();
+        }
+
+        return Array.from(new Set(blocks)).join('\n\n');
+    }
+
+    private loadDomainRulesFromEnv(): Record<string, DomainExtractionRule> {
+        const raw = process.env.ARTICLE_EXTRACTION_RULES;
+        if (!raw) return {};
+
+        try {
+            return JSON.parse(raw);
+        } catch (error) {
+            logger.error('Invalid ARTICLE_EXTRACTION_RULES, ignoring:', error);
+            return {};
+        }
+    }
+}
+
+// Export singleton instance
+export const articleExtractionService = new ArticleExtractionService();
@@ -0,0 +1,141 @@
+import { logger } from '../utils/logger';
+
+export interface RankingWeights {
+    recency: number;
+    sourcePriority: number;
+    completeness: number;
+    popularity: number;
+}
+
+export interface ScoreBreakdown {
+    recency: number;
+    sourcePriority: number;
+    completeness: number;
+    popularity: number;
+    ageHours: number;
+}
+
+export interface RankableArticle {
+    publishedAt: Date;
+    fullText?: string;
+    description?: string;
+    wordCount?: number;
+    extractionStatus?: string;
+    popularity?: number;
+    clusterSize?: number; // Number of sources that covered the story
+}
+
+const DEFAULT_WEIGHTS: RankingWeights = {
+    recency: 0.5,
+    sourcePriority: 0.2,
+    completeness: 0.2,
+    popularity: 0.1
+};
+
+// Word count at which an article's text counts as complete
+const COMPLETE_WORD_COUNT = 300;
+
+export class ArticleRankingService {
+    private weights: RankingWeights;
+    private halfLifeHours: number;
+    private defaultMaxAgeHours: number;
+    private defaultSourcePriority: number;
+
+    constructor() {
+        this.weights = this.loadWeights();
+        this.halfLifeHours = parseFloat(process.env.RANKING_HALF_LIFE_HOURS || '12');
+        this.defaultMaxAgeHours = parseFloat(process.env.ARTICLE_MAX_AGE_HOURS || '72');
+        this.defaultSourcePriority = 0.5;
+    }
+
+    getWeights(): RankingWeights {
+        return { ...this.weights };
+    }
+
+    /**
+     * Oldest publish date selection accepts for a category
+     */
+    getMaxAgeCutoff(maxAgeHours: number | undefined, now: Date = new Date()): Date {
+        const hours = maxAgeHours || this.defaultMaxAgeHours;
+        return new Date(now.getTime() - hours * 60 * 60 * 1000);
+    }
+
+    getDefaultMaxAgeHours(): number {
+        return this.defaultMaxAgeHours;
+    }
+
+    /**
+     * Weighted 0-1 score plus the per-signal values it was built from
+     */
+    scoreArticle(article: RankableArticle, sourcePriority: number | undefined, now: Date = new Date()): { score: number; breakdown: ScoreBreakdown } {
+        const ageHours = Math.max(0, (now.getTime() - new Date(article.publishedAt).getTime()) / (60 * 60 * 1000));
+
+        const breakdown: ScoreBreakdown = {
+            // Halves every halfLifeHours
+            recency: Math.round(Math.pow(0.5, ageHours / this.halfLifeHours) * 1000) / 1000,
+            sourcePriority: sourcePriority ?? this.defaultSourcePriority,
+            completeness: this.scoreCompleteness(article),
+            popularity: this.scorePopularity(article),
+            ageHours: Math.round(ageHours * 10) / 10
+        };
+
+        const totalWeight = this.weights.recency + this.weights.sourcePriority + this.weights.completeness + this.weights.popularity;
+        const score = (
+            this.weights.recency * breakdown.recency +
+            this.weights.sourcePriority * breakdown.sourcePriority +
+            this.weights.completeness * breakdown.completeness +
+            this.weights.popularity * breakdown.popularity
+        ) / (totalWeight || 1);
+
+        return { score: Math.round(score * 1000) / 1000, breakdown };
+    }
+
+    /**
+     * Extracted full text scores by length; feed teasers score low; title-only scores zero
+     */
+    private scoreCompleteness(article: RankableArticle): number {
+        if (article.fullText && article.extractionStatus !== 'fallback') {
+            const words = article.wordCount ?? article.fullText.split(/\s+/).length;
+            return Math.round(Math.min(1, 0.4 + 0.6 * (words / COMPLETE_WORD_COUNT)) * 1000) / 1000;
+        }
+        if (article.fullText || article.description) {
+            return 0.3;
+        }
+        return 0;
+    }
+
+    /**
+     * External popularity when present, otherwise how many sources covered the story
+     */
+    private scorePopularity(article: RankableArticle): number {
+        const coverage = Math.min(1, Math.max(0, (article.clusterSize ?? 1) - 1) / 4);
+        return Math.max(article.popularity ?? 0, coverage);
+    }
+
+    /**
+     * RANKING_WEIGHTS takes JSON like {"recency":0.6,"popularity":0}; missing keys keep their defaults
+     */
+    private loadWeights(): RankingWeights {
+        const raw = process.env.RANKING_WEIGHTS;
+        if (!raw) {
+            return { ...DEFAULT_WEIGHTS };
+        }
+
+        try {
+            const parsed = JSON.parse(raw);
+            const weights = { ...DEFAULT_WEIGHTS };
+            for (const key of Object.keys(DEFAULT_WEIGHTS) as (keyof RankingWeights)[]) {
+                if (typeof parsed[key] === 'number' && parsed[key] >= 0) {
+                    weights[key] = parsed[key];
+                }
+            }
+            return weights;
+        } catch (error) {
+            logger.error('Invalid RANKING_WEIGHTS, using defaults:', error);
+            return { ...DEFAULT_WEIGHTS };
+        }
+    }
+}
+
+// Export singleton instance
+export const articleRankingService = new ArticleRankingService();
@@ -1,10 +1,25 @@
-import axios from '../utils/axiosIntercepter';
 import { logger } from '../utils/logger';
 import AiSummaries from '../models/aiSummarries';
 import BatchTracker from '../models/batchTracker';
-import { Client } from '@gradio/client';
+import { createTtsProvider, TtsProvider } from '../providers/tts';
+import { audioRetryService } from './audioRetryService';
+import { batchItemService } from './batchItemService';
+import { batchStateMachine } from './batchStateMachine';
+import { BatchEventActor } from '../models/batchEvent';
 
 export class AudioGenerationService {
+    private ttsProvider: TtsProvider;
+
+    constructor() {
+        this.ttsProvider = createTtsProvider();
+    }
+
+    /**
+     * Name of the configured text-to-speech backend
+     */
+    getTtsProviderName(): string {
+        return this.ttsProvider.name;
+    }
 
     /**
      * Trigger audio generation for a completed batch - sends each summary individually
@@ -20,10 +35,12 @@ export class AudioGenerationService {
                 return;
             }
 
-            // Fetch all AI summaries for this batch that don't already have audio generated
+            // Fetch all user summaries for this batch that don't already have audio generated; shared category summaries are never voiced
             const summaries = await AiSummaries.find({ 
                 batchId, 
-                isAudioGenerated: { $ne: true } 
+                summaryType: 'user',
+                isAudioGenerated: { $ne: true },
+                audioFailed: { $ne: true }
             }).lean();
             
             if (!summaries.length) {
@@ -32,7 +49,7 @@ export class AudioGenerationService {
             }
 
             // Check if there are any summaries that already have audio
-            const totalSummaries = await AiSummaries.countDocuments({ batchId });
+            const totalSummaries = await AiSummaries.countDocuments({ batchId, summaryType: 'user' });
             const summariesWithAudio = totalSummaries - summaries.length;
             
             if (summariesWithAudio > 0) {
@@ -45,8 +62,7 @@ export class AudioGenerationService {
             for (let i = 0; i < summaries.length; i++) {
                 const summary = summaries[i];
                 
-                // Send individual summary (fire-and-forget)
-                this.sendIndividualSummaryForAudio(summary, batchId);
+                await this.requestSummaryAudio(summary, batchId);
                 
                 // Wait 1 second before sending the next one (except for the last one)
                 if (i < summaries.length - 1) {
@@ -63,42 +79,180 @@ export class AudioGenerationService {
     }
 
     /**
-     * Send individual summary for audio generation (fire-and-forget)
+     * Send individual summary to the configured TTS provider
      */
-    public async sendIndividualSummaryForAudio(summary: any, batchId: string): Promise<void> {
-        // Prepare individual summary data
-        const summaryData = {
-            summaryId: summary._id,
-            userId: summary.userId,
-            summary: summary.summary,
-            summaryType: summary.summaryType,
-            summaryTitle: summary.summaryTitle,
-            batchId: batchId,
-            timestamp: new Date()
-        };
-
-        const client = await Client.connect("joeljose555/aiScripts", {
-            hf_token: process.env.HF_TOKEN as `hf_${string}`
-        });
-        const result = await client.predict("/run_tts_gpu", {
+    public async sendIndividualSummaryForAudio(summary: any, batchId: string): Promise<any> {
+        const result = await this.ttsProvider.synthesize({
             text: summary.summary,
-            user_id: summary.userId,
-            batch_id: summary.batchId,
-            summary_id: summary._id.toString(),
-            max_length: 700, // Adjust this value based on your needs
+            userId: summary.userId,
+            batchId: summary.batchId,
+            summaryId: summary._id.toString()
         });
+
+        // Providers that answer inline skip the webhook round-trip, so save through the same path it would take
+        if (result.delivery === 'inline') {
+            // Imported lazily: webhookServices depends on this service
+            const { webhookServices } = await import('./webhookServices');
+            logger.info(`Audio generated by ${this.ttsProvider.name} provider for summary ${summary._id}, user ${summary.userId} in batch ${batchId}`);
+            return webhookServices.handleSummaryAudioGenerationSuccess(result.audioUrl, summary.userId, summary._id.toString(), batchId);
+        }
+
         logger.info(`Audio generation request sent for summary ${summary._id}, user ${summary.userId} in batch ${batchId}`);
-        // // Fire-and-forget request
-        // axios.post('/generate-audio', {
-        //     batchId,
-        //     summaryId: summary._id, // Include summaryId at top level for easy access
-        //     data: summaryData
-        // }).then(() => {
-        //     logger.info(`Audio generation request sent for summary ${summary._id}, user ${summary.userId} in batch ${batchId}`);
-        // }).catch((error) => {
-        //     logger.error(`Error sending audio generation request for summary ${summary._id} in batch ${batchId}:`, error.message);
-        //     // Note: Individual failures don't stop the process - webhooks will handle batch completion logic
-        // });
+        return result.raw;
+    }
+
+    /**
+     * Queue audio again for the batch's summaries that have none and aren't in flight: never dispatched,
+     * or given up on. The retry engine sends them on its next pass, so this returns straight away.
+     */
+    async retriggerMissingAudio(batchId: string, actor: BatchEventActor = 'api'): Promise<number> {
+        const missing = await AiSummaries.find({
+            batchId,
+            summaryType: 'user',
+            isAudioGenerated: { $ne: true }
+        }).lean();
+
+        // Pending dispatches are awaiting their callback and retrying ones are already scheduled
+        const retryStatuses = await audioRetryService.getStatuses(missing.map(summary => summary._id.toString()));
+        const summaries = missing.filter(summary => {
+            const status = retryStatuses.get(summary._id.toString());
+            return !status || status === 'failed';
+        });
+
+        if (!summaries.length) {
+            logger.info(`No summaries in batch ${batchId} need audio re-triggered (${missing.length} still in flight)`);
+            return 0;
+        }
+
+        const summaryIds = summaries.map(summary => summary._id.toString());
+
+        // Clear permanent failures so the summaries count as outstanding again
+        await AiSummaries.updateMany(
+            { _id: { $in: summaryIds } },
+            { audioFailed: false, $unset: { audioFailureReason: 1 } }
+        );
+        await audioRetryService.scheduleImmediateRetries(summaries, batchId);
+        await batchItemService.markAudioRequested(summaryIds);
+
+        await batchStateMachine.transition(batchId, 'audio_requested', {
+            actor,
+            reason: `Audio re-triggered for ${summaries.length} summaries`,
+            metadata: { summaryIds }
+        });
+
+        logger.info(`Queued audio retries for ${summaries.length} summaries in batch ${batchId}`);
+        return summaries.length;
+    }
+
+    /**
+     * Audio for a summary that arrived after its batch already requested audio.
+     * Only dispatched if the user's item is still waiting, so it can't race triggerAudioGeneration.
+     */
+    async requestLateSummaryAudio(summary: any, batchId: string): Promise<void> {
+        try {
+            const claimed = await batchItemService.claimForAudio(summary._id.toString());
+            if (!claimed) {
+                return;
+            }
+
+            logger.info(`Summary ${summary._id} arrived after audio was requested for batch ${batchId}, requesting its audio now`);
+            await this.requestSummaryAudio(summary, batchId, false);
+
+        } catch (error) {
+            logger.error(`Error requesting audio for late summary ${summary._id} in batch ${batchId}:`, error);
+        }
+    }
+
+    /**
+     * Record and send one summary's audio request
+     */
+    private async requestSummaryAudio(summary: any, batchId: string, markItem: boolean = true): Promise<void> {
+        // Record the dispatch first so a lost request can always be retried
+        await audioRetryService.recordDispatch(summary, batchId);
+        if (markItem) {
+            await batchItemService.markAudioRequested([summary._id.toString()]);
+        }
+
+        // Send individual summary (not awaited; failures are recorded for retry)
+        this.dispatchSummaryAudio(summary, batchId);
+    }
+
+    /**
+     * Send a summary to TTS and record any failure with the retry engine instead of dropping it
+     */
+    private async dispatchSummaryAudio(summary: any, batchId: string): Promise<void> {
+        try {
+            await this.sendIndividualSummaryForAudio(summary, batchId);
+        } catch (error) {
+            logger.error(`Error sending audio generation request for summary ${summary._id} in batch ${batchId}:`, error);
+            await this.handleDispatchFailure(summary._id.toString(), error instanceof Error ? error.message : 'Unknown error');
+        }
+    }
+
+    /**
+     * Schedule a retry, or surface the summary as permanently failed once retries are exhausted
+     */
+    private async handleDispatchFailure(summaryId: string, errorMessage: string): Promise<void> {
+        try {
+            const { record, exhausted } = await audioRetryService.recordFailure(summaryId, errorMessage);
+
+            if (exhausted && record) {
+                // Imported lazily: webhookServices depends on this service
+                const { webhookServices } = await import('./webhookServices');
+                await webhookServices.handleAudioGenerationFailure(
+                    record.batchId,
+                    `Audio generation failed after ${record.maxRetries} retries: ${errorMessage}`,
+                    record.userId,
+                    summaryId
+                );
+            }
+        } catch (error) {
+            logger.error(`Error recording audio generation failure for summary ${summaryId}:`, error);
+        }
+    }
+
+    /**
+     * Retry failed TTS dispatches whose backoff has elapsed (run from the batch maintenance cron)
+     */
+    async processAudioRetries(): Promise<void> {
+        try {
+            // Webhook providers never report failures, so a missing callback is treated as one
+            const staleDispatches = await audioRetryService.findStaleDispatches();
+            for (const stale of staleDispatches) {
+                await this.handleDispatchFailure(stale.summaryId, 'No audio callback received within timeout');
+            }
+
+            const dueRetries = await audioRetryService.findDueRetries();
+            logger.info(`Found ${staleDispatches.length} stale audio dispatches and ${dueRetries.length} audio retries due`);
+
+            for (let i = 0; i < dueRetries.length; i++) {
+                const retry = dueRetries[i];
+                const summary = await AiSummaries.findById(retry.summaryId).lean();
+
+                if (!summary) {
+                    await this.handleDispatchFailure(retry.summaryId, 'Summary no longer exists');
+                    continue;
+                }
+
+                // Audio may have landed after we gave up waiting for it
+                if (summary.isAudioGenerated) {
+                    await audioRetryService.recordSuccess(retry.summaryId);
+                    continue;
+                }
+
+                logger.info(`Retrying audio generation for summary ${retry.summaryId} (retry ${retry.retryCount}/${retry.maxRetries})`);
+                await audioRetryService.recordDispatch(summary, retry.batchId);
+                this.dispatchSummaryAudio(summary, retry.batchId);
+
+                // Wait 1 second before sending the next one (except for the last one)
+                if (i < dueRetries.length - 1) {
+                    await this.delay(1000);
+                }
+            }
+
+        } catch (error) {
+            logger.error('Error processing audio generation retries:', error);
+        }
     }
 
     /**
@@ -0,0 +1,200 @@
+import { logger } from '../utils/logger';
+import AudioGenerationRetry, { IAudioGenerationRetry } from '../models/audioGenerationRetry';
+
+export class AudioRetryService {
+    private maxRetries: number;
+    private baseDelayMs: number;
+    private maxDelayMs: number;
+    private callbackTimeoutMs: number;
+
+    constructor() {
+        this.maxRetries = parseInt(process.env.AUDIO_MAX_RETRIES || '3');
+        this.baseDelayMs = parseInt(process.env.AUDIO_RETRY_BASE_DELAY_MS || '60000');
+        this.maxDelayMs = parseInt(process.env.AUDIO_RETRY_MAX_DELAY_MS || '1800000');
+        // Webhook-based providers only report success; no callback within this window counts as a failure
+        this.callbackTimeoutMs = parseInt(process.env.AUDIO_CALLBACK_TIMEOUT_MS || '900000');
+    }
+
+    /**
+     * Record that a summary was sent to the TTS provider (first attempt or retry)
+     */
+    async recordDispatch(summary: any, batchId: string): Promise<IAudioGenerationRetry> {
+        const summaryId = summary._id.toString();
+
+        return AudioGenerationRetry.findOneAndUpdate(
+            { summaryId },
+            {
+                $set: {
+                    status: 'pending',
+                    lastAttemptAt: new Date(),
+                    summaryData: this.toSummaryData(summary, batchId)
+                },
+                $unset: { nextRetryAt: 1 },
+                $setOnInsert: {
+                    batchId,
+                    summaryId,
+                    userId: summary.userId,
+                    retryCount: 0,
+                    maxRetries: this.maxRetries
+                }
+            },
+            { upsert: true, new: true }
+        );
+    }
+
+    /**
+     * Retry status per summary; summaries never sent to TTS have none
+     */
+    async getStatuses(summaryIds: string[]): Promise<Map<string, IAudioGenerationRetry['status']>> {
+        const records = await AudioGenerationRetry.find({ summaryId: { $in: summaryIds } }).select('summaryId status').lean();
+        return new Map(records.map(record => [record.summaryId, record.status]));
+    }
+
+    /**
+     * Queue summaries for the next retry pass with a fresh retry budget, for a manual re-trigger
+     */
+    async scheduleImmediateRetries(summaries: any[], batchId: string): Promise<void> {
+        if (!summaries.length) return;
+
+        const now = new Date();
+        await AudioGenerationRetry.bulkWrite(summaries.map(summary => ({
+            updateOne: {
+                filter: { summaryId: summary._id.toString() },
+                update: {
+                    $set: {
+                        status: 'retrying',
+                        retryCount: 0,
+                        nextRetryAt: now,
+                        summaryData: this.toSummaryData(summary, batchId)
+                    },
+                    $unset: { finalFailureAt: 1 },
+                    $setOnInsert: {
+                        batchId,
+                        summaryId: summary._id.toString(),
+                        userId: summary.userId,
+                        maxRetries: this.maxRetries,
+                        lastAttemptAt: now
+                    }
+                },
+                upsert: true
+            }
+        })));
+    }
+
+    /**
+     * Mark a summary's audio as delivered
+     */
+    async recordSuccess(summaryId: string): Promise<void> {
+        await AudioGenerationRetry.findOneAndUpdate(
+            { summaryId, status: { $ne: 'success' } },
+            {
+                status: 'success',
+                successAt: new Date(),
+                $unset: { nextRetryAt: 1 }
+            }
+        );
+    }
+
+    /**
+     * Give up on a summary straight away (e.g. the provider reported a permanent failure)
+     */
+    async recordPermanentFailure(summaryId: string, errorMessage: string): Promise<void> {
+        await AudioGenerationRetry.findOneAndUpdate(
+            { summaryId, status: { $nin: ['success', 'failed'] } },
+            {
+                status: 'failed',
+                lastError: errorMessage,
+                finalFailureAt: new Date(),
+                $unset: { nextRetryAt: 1 }
+            }
+        );
+    }
+
+    /**
+     * Record a failed attempt and schedule the next retry.
+     * Returns exhausted=true once maxRetries is reached and the summary should be given up on.
+     */
+    async recordFailure(summaryId: string, errorMessage: string): Promise<{ record: IAudioGenerationRetry | null; exhausted: boolean }> {
+        const record = await AudioGenerationRetry.findOne({ summaryId });
+        if (!record || ['success', 'failed'].includes(record.status)) {
+            return { record, exhausted: false };
+        }
+
+        const retryCount = record.retryCount + 1;
+        const exhausted = retryCount > record.maxRetries;
+
+        // Guard on the current retryCount so two failure reports for the same attempt count once
+        const updated = await AudioGenerationRetry.findOneAndUpdate(
+            { summaryId, retryCount: record.retryCount, status: { $in: ['pending', 'retrying'] } },
+            exhausted
+                ? {
+                    status: 'failed',
+                    lastError: errorMessage,
+                    finalFailureAt: new Date(),
+                    $unset: { nextRetryAt: 1 }
+                }
+                : {
+                    status: 'retrying',
+                    retryCount,
+                    lastError: errorMessage,
+                    nextRetryAt: new Date(Date.now() + this.computeBackoff(retryCount))
+                },
+            { new: true }
+        );
+
+        if (!updated) {
+            return { record, exhausted: false };
+        }
+
+        if (exhausted) {
+            logger.error(`Audio generation for summary ${summaryId} failed permanently after ${record.maxRetries} retries: ${errorMessage}`);
+        } else {
+            logger.warn(`Audio generation for summary ${summaryId} failed (attempt ${retryCount}/${record.maxRetries}), retrying at ${updated.nextRetryAt?.toISOString()}: ${errorMessage}`);
+        }
+
+        return { record: updated, exhausted };
+    }
+
+    /**
+     * Retries whose backoff has elapsed
+     */
+    async findDueRetries(now: Date = new Date()): Promise<IAudioGenerationRetry[]> {
+        return AudioGenerationRetry.find({
+            status: 'retrying',
+            nextRetryAt: { $lte: now }
+        }).sort({ nextRetryAt: 1 });
+    }
+
+    /**
+     * Dispatches still waiting for a callback long after they were sent
+     */
+    async findStaleDispatches(now: Date = new Date()): Promise<IAudioGenerationRetry[]> {
+        return AudioGenerationRetry.find({
+            status: 'pending',
+            lastAttemptAt: { $lte: new Date(now.getTime() - this.callbackTimeoutMs) }
+        });
+    }
+
+    private toSummaryData(summary: any, batchId: string): any {
+        return {
+            summaryId: summary._id.toString(),
+            userId: summary.userId,
+            summary: summary.summary,
+            summaryType: summary.summaryType,
+            summaryTitle: summary.summaryTitle,
+            batchId
+        };
+    }
+
+    /**
+     * Exponential backoff with jitter: base * 2^(attempt-1), capped, then randomised to 50-100%
+     * so retries from one batch don't all hit the provider at the same moment
+     */
+    computeBackoff(attempt: number): number {
+        const exponential = Math.min(this.maxDelayMs, this.baseDelayMs * Math.pow(2, Math.max(0, attempt - 1)));
+        return Math.round(exponential * (0.5 + Math.random() * 0.5));
+    }
+}
+
+// Export singleton instance
+export const audioRetryService = new AudioRetryService();
@@ -0,0 +1,210 @@
+import { logger } from '../utils/logger';
+import BatchItem, { BatchItemStatus, IBatchItem } from '../models/batchItem';
+
+export interface BatchItemCounts {
+    total: number;
+    awaiting_summary: number;
+    summarized: number;
+    audio_requested: number;
+    audio_ready: number;
+    failed: number;
+    withSummary: number; // Items that received a summary, whatever happened to their audio since
+}
+
+export interface BatchMissingOutputs {
+    batchId: string;
+    awaitingSummary: string[];
+    awaitingAudio: string[];
+    failed: { userId: string; reason?: string }[];
+}
+
+export class BatchItemService {
+
+    /**
+     * Create one awaiting_summary item per user when a batch is created
+     */
+    async createItems(
+        batchId: string,
+        userIds: string[],
+        options: { categoryIdsByUser?: Map<string, string[]>; deliverAtByUser?: Map<string, Date> } = {}
+    ): Promise<void> {
+        if (!userIds.length) return;
+
+        await BatchItem.insertMany(
+            userIds.map(userId => ({
+                batchId,
+                userId,
+                status: 'awaiting_summary',
+                categoryIds: options.categoryIdsByUser?.get(userId),
+                deliverAt: options.deliverAtByUser?.get(userId)
+            })),
+            { ordered: false }
+        );
+    }
+
+    /**
+     * Link a received summary to its user's item.
+     * A late summary can revive an item that was failed for never arriving.
+     */
+    async markSummarized(batchId: string, userId: string, summaryId: string): Promise<IBatchItem | null> {
+        const item = await BatchItem.findOneAndUpdate(
+            {
+                batchId,
+                userId,
+                $or: [
+                    { status: 'awaiting_summary' },
+                    { status: 'failed', summaryId: { $exists: false } }
+                ]
+            },
+            {
+                status: 'summarized',
+                summaryId,
+                summarizedAt: new Date(),
+                $unset: { failedAt: 1, failureReason: 1 }
+            },
+            { new: true }
+        );
+
+        if (!item) {
+            logger.warn(`No awaiting batch item for user ${userId} in batch ${batchId}`);
+        }
+
+        return item;
+    }
+
+    async markAudioRequested(summaryIds: string[]): Promise<void> {
+        if (!summaryIds.length) return;
+
+        await BatchItem.updateMany(
+            { summaryId: { $in: summaryIds }, status: { $in: ['summarized', 'failed'] } },
+            {
+                status: 'audio_requested',
+                audioRequestedAt: new Date(),
+                $unset: { failedAt: 1, failureReason: 1 }
+            }
+        );
+    }
+
+    /**
+     * Atomically move a summarized item to audio_requested; false if someone else already did
+     */
+    async claimForAudio(summaryId: string): Promise<boolean> {
+        const result = await BatchItem.updateOne(
+            { summaryId, status: 'summarized' },
+            {
+                status: 'audio_requested',
+                audioRequestedAt: new Date()
+            }
+        );
+        return result.modifiedCount > 0;
+    }
+
+    async markAudioReady(summaryId: string): Promise<void> {
+        await BatchItem.updateOne(
+            { summaryId, status: { $ne: 'audio_ready' } },
+            {
+                status: 'audio_ready',
+                audioReadyAt: new Date(),
+                $unset: { failedAt: 1, failureReason: 1 }
+            }
+        );
+    }
+
+    async markAudioFailed(summaryId: string, reason: string): Promise<void> {
+        await BatchItem.updateOne(
+            { summaryId, status: { $ne: 'audio_ready' } },
+            {
+                status: 'failed',
+                failedAt: new Date(),
+                failureReason: reason
+            }
+        );
+    }
+
+    /**
+     * Fail every user whose summary never arrived
+     */
+    async failAwaitingSummaries(batchId: string, reason: string): Promise<number> {
+        const result = await BatchItem.updateMany(
+            { batchId, status: 'awaiting_summary' },
+            {
+                status: 'failed',
+                failedAt: new Date(),
+                failureReason: reason
+            }
+        );
+        return result.modifiedCount;
+    }
+
+    /**
+     * Slot the mix for a summary was generated for, if it was a scheduled delivery
+     */
+    async getDeliverAt(summaryId: string): Promise<Date | undefined> {
+        const item = await BatchItem.findOne({ summaryId }).select('deliverAt').lean();
+        return item?.deliverAt;
+    }
+
+    /**
+     * Users in a batch still waiting on their summary
+     */
+    async getAwaitingSummary(batchId: string): Promise<IBatchItem[]> {
+        return BatchItem.find({ batchId, status: 'awaiting_summary' }).lean() as unknown as Promise<IBatchItem[]>;
+    }
+
+    async getItems(batchId: string): Promise<IBatchItem[]> {
+        return BatchItem.find({ batchId }).sort({ userId: 1 }).lean() as unknown as Promise<IBatchItem[]>;
+    }
+
+    /**
+     * Item counts per status for a batch
+     */
+    async getCounts(batchId: string): Promise<BatchItemCounts> {
+        const grouped = await BatchItem.aggregate([
+            { $match: { batchId } },
+            {
+                $group: {
+                    _id: '$status',
+                    count: { $sum: 1 },
+                    withSummary: { $sum: { $cond: [{ $ifNull: ['$summaryId', false] }, 1, 0] } }
+                }
+            }
+        ]);
+
+        const counts: BatchItemCounts = {
+            total: 0,
+            awaiting_summary: 0,
+            summarized: 0,
+            audio_requested: 0,
+            audio_ready: 0,
+            failed: 0,
+            withSummary: 0
+        };
+
+        for (const group of grouped) {
+            counts[group._id as BatchItemStatus] = group.count;
+            counts.total += group.count;
+            counts.withSummary += group.withSummary;
+        }
+
+        return counts;
+    }
+
+    /**
+     * Which users in a batch are still missing a summary or audio
+     */
+    async getMissingOutputs(batchId: string): Promise<BatchMissingOutputs> {
+        const items = await BatchItem.find({ batchId, status: { $ne: 'audio_ready' } })
+            .select('userId status failureReason')
+            .lean();
+
+        return {
+            batchId,
+            awaitingSummary: items.filter(item => item.status === 'awaiting_summary').map(item => item.userId),
+            awaitingAudio: items.filter(item => ['summarized', 'audio_requested'].includes(item.status)).map(item => item.userId),
+            failed: items.filter(item => item.status === 'failed').map(item => ({ userId: item.userId, reason: item.failureReason }))
+        };
+    }
+}
+
+// Export singleton instance
+export const batchItemService = new BatchItemService();
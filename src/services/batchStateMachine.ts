@@ -0,0 +1,155 @@
+import { logger } from '../utils/logger';
+import BatchTracker, { BatchStatus, IBatchTracker } from '../models/batchTracker';
+import BatchEvent, { BatchEventActor, IBatchEvent } from '../models/batchEvent';
+import { OutboundWebhookEvent } from '../models/webhookSubscription';
+import { outboundWebhookService } from './outboundWebhookService';
+
+/**
+ * Legal status moves. Anything not listed here is rejected.
+ *
+ * pending ─┬─> partial_complete ─┬─> audio_requested ─┬─> audio_complete
+ *          │                     └─> complete ────────┤
+ *          ├─> complete ──────────────────────────────┼─> audio_failed ─> audio_requested (manual re-trigger)
+ *          └─> failed ─> complete (late summaries recovered)
+ */
+const TRANSITIONS: Record<BatchStatus, BatchStatus[]> = {
+    pending: ['partial_complete', 'complete', 'failed'],
+    partial_complete: ['audio_requested', 'complete', 'audio_complete', 'audio_failed', 'failed'],
+    complete: ['audio_requested', 'audio_complete', 'audio_failed'],
+    audio_requested: ['audio_complete', 'audio_failed'],
+    audio_complete: [],
+    audio_failed: ['audio_requested', 'audio_complete'],
+    failed: ['complete']
+};
+
+// Timestamp stamped on the tracker when a status is entered
+const STATUS_TIMESTAMPS: Partial<Record<BatchStatus, keyof IBatchTracker>> = {
+    partial_complete: 'partialCompletedAt',
+    complete: 'completedAt',
+    audio_requested: 'audioRequestedAt',
+    audio_complete: 'audioCompletedAt',
+    audio_failed: 'audioFailedAt',
+    failed: 'completedAt'
+};
+
+// Outbound event published to subscribers when a batch enters a status
+const STATUS_EVENTS: Partial<Record<BatchStatus, OutboundWebhookEvent>> = {
+    audio_complete: 'batch.completed',
+    audio_failed: 'batch.failed',
+    failed: 'batch.failed'
+};
+
+export interface BatchTransitionOptions {
+    actor: BatchEventActor;
+    reason: string;
+    from?: BatchStatus[]; // Narrow the allowed source statuses further than the table does
+    update?: Record<string, any>; // Extra tracker fields written in the same atomic update
+    metadata?: any;
+}
+
+export class BatchStateMachine {
+
+    /**
+     * Whether the table allows moving from one status to another
+     */
+    canTransition(from: BatchStatus, to: BatchStatus): boolean {
+        return TRANSITIONS[from]?.includes(to) ?? false;
+    }
+
+    /**
+     * Statuses a batch can currently move to
+     */
+    getAllowedTransitions(from: BatchStatus): BatchStatus[] {
+        return TRANSITIONS[from] || [];
+    }
+
+    /**
+     * Atomically move a batch to a new status and log the event.
+     * Returns the updated tracker, or null when the batch is missing, the move is illegal
+     * from its current status, or another process changed the status first.
+     */
+    async transition(batchId: string, to: BatchStatus, options: BatchTransitionOptions): Promise<IBatchTracker | null> {
+        const allowedFrom = (Object.keys(TRANSITIONS) as BatchStatus[])
+            .filter(status => TRANSITIONS[status].includes(to))
+            .filter(status => !options.from || options.from.includes(status));
+
+        const now = new Date();
+        const timestampField = STATUS_TIMESTAMPS[to];
+
+        // Status guard in the filter makes the check-and-set atomic
+        const previous = await BatchTracker.findOneAndUpdate(
+            { batchId, status: { $in: allowedFrom } },
+            {
+                ...options.update,
+                status: to,
+                ...(timestampField ? { [timestampField]: now } : {})
+            },
+            { new: false }
+        );
+
+        if (!previous) {
+            const current = await BatchTracker.findOne({ batchId }).select('status').lean();
+            if (!current) {
+                logger.warn(`Batch ${batchId} not found, cannot transition to ${to}`);
+            } else if (!this.canTransition(current.status, to)) {
+                logger.warn(`Rejected illegal batch transition ${current.status} -> ${to} for batch ${batchId} (${options.actor}: ${options.reason})`);
+            } else {
+                logger.info(`Batch ${batchId} is in ${current.status}, skipping transition to ${to} requested by ${options.actor}`);
+            }
+            return null;
+        }
+
+        await this.recordEvent(batchId, previous.status, to, options);
+        logger.info(`Batch ${batchId}: ${previous.status} -> ${to} (${options.actor}: ${options.reason})`);
+
+        const updated = await BatchTracker.findOne({ batchId });
+
+        const event = STATUS_EVENTS[to];
+        if (event && updated) {
+            await outboundWebhookService.publish(event, {
+                batchId,
+                status: to,
+                previousStatus: previous.status,
+                reason: options.reason,
+                expectedCount: updated.expectedCount,
+                receivedCount: updated.receivedCount,
+                failureReason: updated.failureReason
+            });
+        }
+
+        return updated;
+    }
+
+    /**
+     * Log the initial event for a newly created batch
+     */
+    async recordCreation(batchId: string, actor: BatchEventActor, reason: string, metadata?: any): Promise<void> {
+        await this.recordEvent(batchId, null, 'pending', { actor, reason, metadata });
+    }
+
+    /**
+     * Ordered audit trail for a batch
+     */
+    async getTimeline(batchId: string): Promise<IBatchEvent[]> {
+        return BatchEvent.find({ batchId }).sort({ createdAt: 1 }).lean() as unknown as Promise<IBatchEvent[]>;
+    }
+
+    private async recordEvent(batchId: string, fromStatus: BatchStatus | null, toStatus: BatchStatus, options: BatchTransitionOptions): Promise<void> {
+        try {
+            await BatchEvent.create({
+                batchId,
+                fromStatus,
+                toStatus,
+                actor: options.actor,
+                reason: options.reason,
+                metadata: options.metadata
+            });
+        } catch (error) {
+            // The transition already happened; a missing audit row shouldn't undo it
+            logger.error(`Error recording batch event ${fromStatus} -> ${toStatus} for batch ${batchId}:`, error);
+        }
+    }
+}
+
+// Export singleton instance
+export const batchStateMachine = new BatchStateMachine();
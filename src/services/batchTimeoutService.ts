@@ -2,6 +2,18 @@ import { logger } from '../utils/logger';
 import BatchTracker from '../models/batchTracker';
 import AiSummaries from '../models/aiSummarries';
 import { audioGenerationService } from './audioGenerationService';
+import { batchStateMachine } from './batchStateMachine';
+import { BatchEventActor } from '../models/batchEvent';
+import { batchItemService } from './batchItemService';
+import { webhookServices } from './webhookServices';
+import { outboundWebhookService } from './outboundWebhookService';
+import { categorySummaryService } from './categorySummaryService';
+
+export interface BatchStatusStats {
+    _id: string; // Batch status
+    count: number;
+    avgCompletionRate: number; // Mean receivedCount / expectedCount, 0 for empty batches
+}
 
 export class BatchTimeoutService {
 
@@ -29,6 +41,29 @@ export class BatchTimeoutService {
         }
     }
 
+    /**
+     * Close out timed-out batches that already requested audio but still have users waiting on a summary
+     */
+    async processStalledAudioBatches(): Promise<void> {
+        try {
+            const stalledBatches = await BatchTracker.find({
+                timeoutAt: { $lte: new Date() },
+                status: 'audio_requested'
+            });
+
+            for (const batch of stalledBatches) {
+                const missingCount = await batchItemService.failAwaitingSummaries(batch.batchId, 'Summary not received before batch timeout');
+                if (missingCount > 0) {
+                    logger.warn(`Batch ${batch.batchId}: ${missingCount} users never received a summary, checking audio completion`);
+                }
+                await webhookServices.checkBatchAudioCompletion(batch.batchId);
+            }
+
+        } catch (error) {
+            logger.error('Error processing stalled audio batches:', error);
+        }
+    }
+
     /**
      * Check for orphaned summaries that belong to failed batches
      * This handles cases where summaries arrived after the batch timed out
@@ -38,14 +73,15 @@ export class BatchTimeoutService {
             // Find failed batches
             const failedBatches = await BatchTracker.find({
                 status: 'failed',
-                receivedCount: 0
+                receivedCount: 0,
+                cancelledAt: { $exists: false }
             });
 
             logger.info(`Checking ${failedBatches.length} failed batches for orphaned summaries`);
 
             for (const batch of failedBatches) {
                 // Check if there are summaries for this batch that arrived after it failed
-                const summaryCount = await AiSummaries.countDocuments({ batchId: batch.batchId });
+                const summaryCount = await AiSummaries.countDocuments({ batchId: batch.batchId, summaryType: 'user' });
                 
                 if (summaryCount > 0) {
                     logger.info(`Found ${summaryCount} orphaned summaries for failed batch ${batch.batchId}, recovering...`);
@@ -72,6 +108,7 @@ export class BatchTimeoutService {
             // Check how many summaries already have audio generated
             const summariesWithAudio = await AiSummaries.countDocuments({ 
                 batchId: batch.batchId, 
+                summaryType: 'user',
                 isAudioGenerated: true 
             });
             const summariesNeedingAudio = summaryCount - summariesWithAudio;
@@ -79,15 +116,12 @@ export class BatchTimeoutService {
             logger.info(`Recovering batch ${batch.batchId}: ${summaryCount} total summaries, ${summariesWithAudio} already have audio, ${summariesNeedingAudio} need audio`);
 
             // Update batch with actual received count and mark as complete
-            const updatedBatch = await BatchTracker.findOneAndUpdate(
-                { batchId: batch.batchId, status: 'failed' }, // Add status condition to prevent race conditions
-                { 
-                    receivedCount: summaryCount,
-                    status: 'complete',
-                    completedAt: new Date()
-                },
-                { new: true }
-            );
+            const updatedBatch = await batchStateMachine.transition(batch.batchId, 'complete', {
+                actor: 'recovery',
+                reason: `Recovered ${summaryCount} summaries that arrived after the batch failed`,
+                from: ['failed'], // Status condition prevents race conditions
+                update: { receivedCount: summaryCount }
+            });
 
             if (!updatedBatch) {
                 logger.info(`Batch ${batch.batchId} was already updated by another process, skipping recovery`);
@@ -100,24 +134,18 @@ export class BatchTimeoutService {
                 await audioGenerationService.triggerAudioGeneration(batch.batchId);
 
                 // Update status to audio_requested
-                await BatchTracker.findOneAndUpdate(
-                    { batchId: batch.batchId },
-                    { 
-                        status: 'audio_requested',
-                        audioRequestedAt: new Date()
-                    }
-                );
+                await batchStateMachine.transition(batch.batchId, 'audio_requested', {
+                    actor: 'recovery',
+                    reason: `Audio generation triggered for ${summariesNeedingAudio} recovered summaries`
+                });
 
                 logger.info(`Recovered failed batch ${batch.batchId} and triggered audio generation for ${summariesNeedingAudio} summaries`);
             } else {
                 // All summaries already have audio, mark as audio_complete
-                await BatchTracker.findOneAndUpdate(
-                    { batchId: batch.batchId },
-                    { 
-                        status: 'audio_complete',
-                        audioCompletedAt: new Date()
-                    }
-                );
+                await batchStateMachine.transition(batch.batchId, 'audio_complete', {
+                    actor: 'recovery',
+                    reason: 'All recovered summaries already have audio'
+                });
                 logger.info(`Recovered failed batch ${batch.batchId} - all summaries already have audio, marked as audio_complete`);
             }
 
@@ -154,9 +182,11 @@ export class BatchTimeoutService {
     }
 
     /**
-     * Handle a specific timed-out batch
+     * Handle a specific timed-out batch (or one force-completed via the API)
      */
-    private async handleTimeoutBatch(batch: any): Promise<void> {
+    private async handleTimeoutBatch(batch: any, actor: BatchEventActor = 'timeout_service'): Promise<void> {
+        const closedBy = actor === 'api' ? 'Force-completed' : 'Timed out';
+
         try {
             // Skip if batch is already processed or in progress
             if (!['pending', 'partial_complete'].includes(batch.status)) {
@@ -164,15 +194,32 @@ export class BatchTimeoutService {
                 return;
             }
 
+            // Category-mode users still waiting on some categories get a mix from the ones that arrived
+            if (await categorySummaryService.assembleUserSummaries(batch.batchId, true) > 0) {
+                const refreshed = await BatchTracker.findOne({ batchId: batch.batchId });
+                if (!refreshed || !['pending', 'partial_complete'].includes(refreshed.status)) {
+                    logger.info(`Batch ${batch.batchId} completed from partially assembled mixes, skipping ${closedBy.toLowerCase()} handling`);
+                    return;
+                }
+                batch = refreshed;
+            }
+
             // Check if summaries exist for this batch (they might have arrived late)
-            const actualSummaryCount = await AiSummaries.countDocuments({ batchId: batch.batchId });
+            const actualSummaryCount = await AiSummaries.countDocuments({ batchId: batch.batchId, summaryType: 'user' });
             const summariesWithAudio = await AiSummaries.countDocuments({ 
                 batchId: batch.batchId, 
+                summaryType: 'user',
                 isAudioGenerated: true 
             });
             const completionPercentage = (actualSummaryCount / batch.expectedCount) * 100;
             
-            logger.warn(`Batch ${batch.batchId} timed out after 30 minutes. Expected ${batch.expectedCount}, found ${actualSummaryCount} summaries (${completionPercentage.toFixed(1)}%), ${summariesWithAudio} already have audio`);
+            logger.warn(`Batch ${batch.batchId} ${closedBy.toLowerCase()}. Expected ${batch.expectedCount}, found ${actualSummaryCount} summaries (${completionPercentage.toFixed(1)}%), ${summariesWithAudio} already have audio`);
+
+            // Users whose summary never came back won't hold the batch open any longer
+            const missingCount = await batchItemService.failAwaitingSummaries(batch.batchId, `Summary not received before batch was ${closedBy.toLowerCase()}`);
+            if (missingCount > 0) {
+                logger.warn(`Batch ${batch.batchId}: ${missingCount} users never received a summary`);
+            }
 
             // Update the receivedCount with actual summaries found
             if (actualSummaryCount !== batch.receivedCount) {
@@ -187,15 +234,12 @@ export class BatchTimeoutService {
                 const summariesNeedingAudio = actualSummaryCount - summariesWithAudio;
                 
                 if (batch.status === 'pending') {
-                    // Use atomic update to prevent race conditions
-                    const updatedBatch = await BatchTracker.findOneAndUpdate(
-                        { batchId: batch.batchId, status: 'pending' },
-                        { 
-                            status: 'complete',
-                            completedAt: new Date()
-                        },
-                        { new: true }
-                    );
+                    // Atomic transition prevents race conditions
+                    const updatedBatch = await batchStateMachine.transition(batch.batchId, 'complete', {
+                        actor,
+                        reason: `${closedBy} with ${actualSummaryCount}/${batch.expectedCount} summaries`,
+                        from: ['pending']
+                    });
 
                     if (!updatedBatch) {
                         logger.info(`Batch ${batch.batchId} was already updated by another process, skipping audio trigger`);
@@ -208,47 +252,36 @@ export class BatchTimeoutService {
                         await audioGenerationService.triggerAudioGeneration(batch.batchId);
 
                         // Update status to audio_requested
-                        await BatchTracker.findOneAndUpdate(
-                            { batchId: batch.batchId },
-                            { 
-                                status: 'audio_requested',
-                                audioRequestedAt: new Date()
-                            }
-                        );
+                        await batchStateMachine.transition(batch.batchId, 'audio_requested', {
+                            actor,
+                            reason: `Audio generation triggered for ${summariesNeedingAudio} summaries (${closedBy.toLowerCase()})`
+                        });
 
                         logger.info(`Triggered audio generation for timed-out batch ${batch.batchId} with ${summariesNeedingAudio} summaries needing audio`);
                     } else {
                         // All summaries already have audio, mark as audio_complete
-                        await BatchTracker.findOneAndUpdate(
-                            { batchId: batch.batchId },
-                            { 
-                                status: 'audio_complete',
-                                audioCompletedAt: new Date()
-                            }
-                        );
+                        await batchStateMachine.transition(batch.batchId, 'audio_complete', {
+                            actor,
+                            reason: `All summaries already have audio (${closedBy.toLowerCase()})`
+                        });
                         logger.info(`All summaries in timed-out batch ${batch.batchId} already have audio, marked as audio_complete`);
                     }
                 } else if (batch.status === 'partial_complete') {
                     // Just mark as complete, audio was already triggered
-                    await BatchTracker.findOneAndUpdate(
-                        { batchId: batch.batchId, status: 'partial_complete' },
-                        { 
-                            status: 'complete',
-                            completedAt: new Date()
-                        }
-                    );
+                    await batchStateMachine.transition(batch.batchId, 'complete', {
+                        actor,
+                        reason: `${closedBy} with ${actualSummaryCount}/${batch.expectedCount} summaries`,
+                        from: ['partial_complete']
+                    });
                     logger.info(`Batch ${batch.batchId} was already partially processed, marked as complete`);
                 }
             } else {
                 // No summaries found, mark as failed only if still pending
-                const updatedBatch = await BatchTracker.findOneAndUpdate(
-                    { batchId: batch.batchId, status: { $in: ['pending', 'partial_complete'] } },
-                    { 
-                        status: 'failed',
-                        completedAt: new Date()
-                    },
-                    { new: true }
-                );
+                const updatedBatch = await batchStateMachine.transition(batch.batchId, 'failed', {
+                    actor,
+                    reason: `No summaries received (${closedBy.toLowerCase()})`,
+                    from: ['pending', 'partial_complete']
+                });
                 
                 if (updatedBatch) {
                     logger.error(`Batch ${batch.batchId} failed - no summaries found within timeout period`);
@@ -260,6 +293,42 @@ export class BatchTimeoutService {
         }
     }
 
+    /**
+     * Cancel a batch that hasn't produced anything yet; late summaries won't revive it
+     */
+    async cancelBatch(batchId: string, reason: string = 'Cancelled via API'): Promise<any | null> {
+        const updatedBatch = await batchStateMachine.transition(batchId, 'failed', {
+            actor: 'api',
+            reason,
+            from: ['pending'],
+            update: { failureReason: reason, cancelledAt: new Date() }
+        });
+
+        if (!updatedBatch) {
+            return null;
+        }
+
+        await batchItemService.failAwaitingSummaries(batchId, reason);
+        logger.info(`Batch ${batchId} cancelled: ${reason}`);
+
+        return updatedBatch.toObject();
+    }
+
+    /**
+     * Close a pending or partially complete batch now instead of waiting for its timeout
+     */
+    async forceCompleteBatch(batchId: string): Promise<any | null> {
+        const batch = await BatchTracker.findOne({ batchId });
+        if (!batch || !['pending', 'partial_complete'].includes(batch.status)) {
+            return null;
+        }
+
+        logger.info(`Force-completing batch ${batchId} (status: ${batch.status})`);
+        await this.handleTimeoutBatch(batch, 'api');
+
+        return BatchTracker.findOne({ batchId }).lean();
+    }
+
     /**
      * Trigger partial completion logic
      */
@@ -271,15 +340,13 @@ export class BatchTimeoutService {
                 return;
             }
 
-            // Use atomic update to prevent race conditions
-            const updatedBatch = await BatchTracker.findOneAndUpdate(
-                { batchId: batch.batchId, status: 'pending' },
-                { 
-                    status: 'partial_complete',
-                    partialCompletedAt: new Date()
-                },
-                { new: true }
-            );
+            // Atomic transition prevents race conditions
+            const updatedBatch = await batchStateMachine.transition(batch.batchId, 'partial_complete', {
+                actor: 'timeout_service',
+                reason: 'Maintenance found batch at 50% completion',
+                from: ['pending'],
+                metadata: { receivedCount: batch.receivedCount, expectedCount: batch.expectedCount }
+            });
 
             if (!updatedBatch) {
                 logger.info(`Batch ${batch.batchId} was already updated by another process, skipping partial completion`);
@@ -290,13 +357,10 @@ export class BatchTimeoutService {
             await audioGenerationService.triggerAudioGeneration(batch.batchId);
 
             // Update status to audio_requested
-            await BatchTracker.findOneAndUpdate(
-                { batchId: batch.batchId },
-                { 
-                    status: 'audio_requested',
-                    audioRequestedAt: new Date()
-                }
-            );
+            await batchStateMachine.transition(batch.batchId, 'audio_requested', {
+                actor: 'timeout_service',
+                reason: 'Audio generation triggered at partial completion'
+            });
 
             logger.info(`Triggered audio generation for partial completion of batch ${batch.batchId}`);
 
@@ -329,9 +393,9 @@ export class BatchTimeoutService {
     /**
      * Get batch statistics for monitoring
      */
-    async getBatchStatistics(): Promise<any> {
+    async getBatchStatistics(): Promise<BatchStatusStats[]> {
         try {
-            const stats = await BatchTracker.aggregate([
+            const stats = await BatchTracker.aggregate<BatchStatusStats>([
                 {
                     $group: {
                         _id: '$status',
@@ -361,29 +425,40 @@ export class BatchTimeoutService {
     }
 
     /**
-     * Main periodic task to run batch maintenance
+     * Main periodic task to run batch maintenance; returns the batch statistics it ends on
      */
-    async runPeriodicMaintenance(): Promise<void> {
+    async runPeriodicMaintenance(): Promise<BatchStatusStats[]> {
         try {
             logger.info('Starting batch timeout maintenance task');
 
             // Process timed-out batches
             await this.processTimeoutBatches();
 
+            // Release audio_requested batches held open by summaries that never arrived
+            await this.processStalledAudioBatches();
+
             // Process orphaned summaries (summaries that arrived after batch timeout)
             await this.processOrphanedSummaries();
 
             // Check for partial completion
             await this.checkPartialCompletionBatches();
 
+            // Retry failed or unanswered TTS dispatches
+            await audioGenerationService.processAudioRetries();
+
+            // Send queued and retrying notifications to webhook subscribers
+            await outboundWebhookService.processDueDeliveries();
+
             // Get and log statistics
             const stats = await this.getBatchStatistics();
             logger.info('Batch statistics:', JSON.stringify(stats, null, 2));
 
             logger.info('Completed batch timeout maintenance task');
+            return stats;
 
         } catch (error) {
             logger.error('Error in periodic maintenance:', error);
+            throw error;
         }
     }
 }
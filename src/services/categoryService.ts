@@ -0,0 +1,212 @@
+import mongoose from 'mongoose';
+import { logger } from '../utils/logger';
+import Category from '../models/categories';
+import NewsArticle from '../models/newsArticles';
+import FeedSource from '../models/feedSource';
+import UserCategoryPreference from '../models/userCategoryPreference';
+import { userPreferenceService } from './userPreferenceService';
+
+export interface CategoryUsage {
+    articleCount: number;
+    feedSourceCount: number;
+    userCount: number;
+}
+
+export interface CategoryMergeResult {
+    sourceId: string;
+    targetId: string;
+    articlesReassigned: number;
+    feedSourcesReassigned: number;
+    preferencesRemapped: number;
+    preferencesDeduplicated: number;
+}
+
+export class CategoryService {
+
+    async listCategories(isActive?: boolean): Promise<any[]> {
+        const filter = isActive === undefined ? {} : { isActive: isActive ? { $ne: false } : false };
+        return Category.find(filter).sort({ name: 1 }).lean();
+    }
+
+    /**
+     * The given categories that are still active; categories created before isActive existed count as active
+     */
+    async getActiveCategories(categoryIds: mongoose.Types.ObjectId[]): Promise<any[]> {
+        return Category.find({ _id: { $in: categoryIds }, isActive: { $ne: false } }).lean();
+    }
+
+    /**
+     * Case-insensitive name lookup, used to keep category names unique
+     */
+    async findByName(name: string, excludeId?: string): Promise<any | null> {
+        const escaped = name.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        return Category.findOne({
+            name: { $regex: `^${escaped}$`, $options: 'i' },
+            ...(excludeId && { _id: { $ne: excludeId } })
+        }).lean();
+    }
+
+    async getUsage(categoryId: string): Promise<CategoryUsage> {
+        const id = new mongoose.Types.ObjectId(categoryId);
+        const [articleCount, feedSourceCount, userCount] = await Promise.all([
+            NewsArticle.countDocuments({ categoryId: id }),
+            FeedSource.countDocuments({ categoryId: id }),
+            UserCategoryPreference.countDocuments({ 'preferredCategories.categoryID': id })
+        ]);
+        return { articleCount, feedSourceCount, userCount };
+    }
+
+    async createCategory(name: string, isActive: boolean = true, maxAgeHours?: number): Promise<any> {
+        const category = await Category.create({ name: name.trim(), isActive, maxAgeHours });
+        logger.info(`Created category ${category._id} "${category.name}"`);
+        return category.toObject();
+    }
+
+    /**
+     * Rename and/or (de)activate a category, cascading each change to the records that copy it
+     */
+    async updateCategory(categoryId: string, changes: { name?: string; isActive?: boolean; maxAgeHours?: number | null }): Promise<any | null> {
+        try {
+            const existing = await Category.findById(categoryId).lean();
+            if (!existing) {
+                return null;
+            }
+
+            if (changes.name !== undefined && changes.name.trim() !== existing.name) {
+                await this.renameCategory(categoryId, changes.name.trim());
+            }
+
+            if (changes.isActive === false && existing.isActive !== false) {
+                await this.deactivateCategory(categoryId);
+            } else if (changes.isActive === true && existing.isActive === false) {
+                await Category.updateOne({ _id: categoryId }, { isActive: true, $unset: { deactivatedAt: 1 } });
+                logger.info(`Reactivated category ${categoryId}`);
+            }
+
+            if (changes.maxAgeHours !== undefined) {
+                await Category.updateOne(
+                    { _id: categoryId },
+                    changes.maxAgeHours === null ? { $unset: { maxAgeHours: 1 } } : { maxAgeHours: changes.maxAgeHours }
+                );
+            }
+
+            return Category.findById(categoryId).lean();
+
+        } catch (error) {
+            logger.error(`Error updating category ${categoryId}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Take a category out of selection and out of every user's preferences
+     */
+    async deactivateCategory(categoryId: string, update: Record<string, any> = {}): Promise<number> {
+        await Category.updateOne(
+            { _id: categoryId },
+            { isActive: false, deactivatedAt: new Date(), ...update }
+        );
+
+        const result = await UserCategoryPreference.updateMany(
+            { 'preferredCategories.categoryID': new mongoose.Types.ObjectId(categoryId) },
+            { $pull: { preferredCategories: { categoryID: new mongoose.Types.ObjectId(categoryId) } } }
+        );
+
+        logger.info(`Deactivated category ${categoryId}, removed it from ${result.modifiedCount} user preferences`);
+        return result.modifiedCount;
+    }
+
+    /**
+     * Delete a category nothing references any more. Callers check getUsage first.
+     */
+    async deleteCategory(categoryId: string): Promise<boolean> {
+        await UserCategoryPreference.updateMany(
+            { 'preferredCategories.categoryID': new mongoose.Types.ObjectId(categoryId) },
+            { $pull: { preferredCategories: { categoryID: new mongoose.Types.ObjectId(categoryId) } } }
+        );
+
+        const result = await Category.deleteOne({ _id: categoryId });
+        if (result.deletedCount > 0) {
+            logger.info(`Deleted category ${categoryId}`);
+        }
+        return result.deletedCount > 0;
+    }
+
+    /**
+     * Fold one category into another: articles and feeds move over, user preferences point at the
+     * target (keeping the user's weight), and the source is left inactive with mergedInto set.
+     */
+    async mergeCategories(sourceId: string, targetId: string): Promise<CategoryMergeResult> {
+        try {
+            const source = new mongoose.Types.ObjectId(sourceId);
+            const target = await Category.findById(targetId).lean();
+            if (!target) {
+                throw new Error(`Target category not found: ${targetId}`);
+            }
+
+            const articles = await NewsArticle.updateMany(
+                { categoryId: source },
+                { categoryId: target._id, categoryName: target.name }
+            );
+
+            const feeds = await FeedSource.updateMany(
+                { categoryId: source },
+                { categoryId: target._id }
+            );
+
+            // Users who already follow the target just lose the source entry
+            const deduplicated = await UserCategoryPreference.updateMany(
+                { 'preferredCategories.categoryID': { $all: [source, target._id] } },
+                { $pull: { preferredCategories: { categoryID: source } } }
+            );
+
+            // Everyone else has the source entry rewritten to the target
+            const remapped = await UserCategoryPreference.updateMany(
+                { 'preferredCategories.categoryID': source },
+                {
+                    $set: {
+                        'preferredCategories.$[pref].categoryID': target._id,
+                        'preferredCategories.$[pref].categoryName': target.name
+                    }
+                },
+                { arrayFilters: [{ 'pref.categoryID': source }] }
+            );
+
+            await this.deactivateCategory(sourceId, { mergedInto: target._id });
+
+            const result: CategoryMergeResult = {
+                sourceId,
+                targetId,
+                articlesReassigned: articles.modifiedCount,
+                feedSourcesReassigned: feeds.modifiedCount,
+                preferencesRemapped: remapped.modifiedCount,
+                preferencesDeduplicated: deduplicated.modifiedCount
+            };
+
+            logger.info(`Merged category ${sourceId} into ${targetId}:`, result);
+            return result;
+
+        } catch (error) {
+            logger.error(`Error merging category ${sourceId} into ${targetId}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Copy a new name onto the preferences and articles that store it alongside the id
+     */
+    private async renameCategory(categoryId: string, name: string): Promise<void> {
+        await Category.updateOne({ _id: categoryId }, { name });
+        await userPreferenceService.syncCategoryName(categoryId, name);
+
+        const articles = await NewsArticle.updateMany(
+            { categoryId: new mongoose.Types.ObjectId(categoryId) },
+            { categoryName: name }
+        );
+
+        logger.info(`Renamed category ${categoryId} to "${name}" (${articles.modifiedCount} articles updated)`);
+    }
+}
+
+// Export singleton instance
+export const categoryService = new CategoryService();
@@ -0,0 +1,312 @@
+import mongoose from 'mongoose';
+import { logger } from '../utils/logger';
+import AiSummaries from '../models/aiSummarries';
+import NewsSummaries from '../models/newsSummaries';
+import UserCategoryPreference from '../models/userCategoryPreference';
+import { createSummarizationProvider, SummarizationProvider } from '../providers/summarization';
+import { summaryService } from './summaryService';
+import { categoryService } from './categoryService';
+import { batchItemService } from './batchItemService';
+import { listeningHistoryService } from './listeningHistoryService';
+import { webhookServices } from './webhookServices';
+import { summaryCacheService, SummaryCacheRef } from './summaryCacheService';
+import { deliveryScheduleService } from './deliveryScheduleService';
+import { JobRunResult } from './jobRunService';
+
+interface CategoryInput {
+    category: any;
+    articles: any[];
+    text: string;
+    cache?: SummaryCacheRef;
+    newsSummaryId?: mongoose.Types.ObjectId;
+}
+
+export class CategorySummaryService {
+    private enabled: boolean;
+    private maxLength: number;
+    private summarizationProvider: SummarizationProvider;
+
+    constructor() {
+        // SUMMARY_MODE=category summarizes each category once per run instead of once per user
+        this.enabled = (process.env.SUMMARY_MODE || 'user').toLowerCase() === 'category';
+        this.maxLength = parseInt(process.env.CATEGORY_SUMMARY_MAX_LENGTH || '250');
+        this.summarizationProvider = createSummarizationProvider();
+    }
+
+    isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    /**
+     * Scheduled task in category mode: summarize every followed category once, then assemble each
+     * user's mix from those shared summaries. Batch tracking stays per user, as in user mode.
+     * With deliverAtByUser it runs for just those users, whose mixes are due by the given slots.
+     * An aborted signal (the scheduler lost its lease) stops the run between categories.
+     */
+    async executeScheduledCategoryTask(deliverAtByUser?: Map<string, Date>, signal?: AbortSignal): Promise<JobRunResult> {
+        try {
+            logger.info('Starting scheduled category summary generation task');
+
+            const batchId = summaryService.generateBatchId();
+            const now = new Date();
+
+            const userPreferences = await UserCategoryPreference.find({
+                ...await deliveryScheduleService.getRunUserFilter(deliverAtByUser),
+                'preferredCategories.0': { $exists: true }
+            }).lean();
+
+            if (!userPreferences.length) {
+                logger.info('No users with category preferences found');
+                return { users: 0, summaries: 0 };
+            }
+
+            const followedIds = [...new Set(userPreferences.flatMap(pref => pref.preferredCategories.map(entry => entry.categoryID.toString())))];
+            const categories = await categoryService.getActiveCategories(followedIds.map(id => new mongoose.Types.ObjectId(id)));
+
+            // One summary input per category, shared by every user following it
+            const inputs = new Map<string, CategoryInput>();
+            for (const category of categories) {
+                const selection = await summaryService.buildSelectionForCategory(category, now);
+                const articles = summaryService.applyWordAllowance([selection]);
+
+                if (!articles.length) {
+                    logger.info(`No articles found for category ${category._id} "${category.name}"`);
+                    continue;
+                }
+
+                const text = summaryService.buildSummaryInput(articles);
+                inputs.set(category._id.toString(), {
+                    category,
+                    articles,
+                    text,
+                    cache: summaryCacheService.buildRef(articles.map(article => article._id), text, this.summarizationProvider, this.maxLength)
+                });
+            }
+
+            // Each user's mix covers the followed categories that have articles, highest weight first,
+            // leaving out categories whose articles (or stories) the user has all heard within the history window
+            const categoryIdsByUser = new Map<string, string[]>();
+            for (const pref of userPreferences) {
+                const userId = pref.userId.toString();
+                const recent = await listeningHistoryService.getRecentDeliveries(userId, now);
+                const heardArticleIds = new Set(recent.articleIds.map(id => id.toString()));
+                const heardStories = new Set(recent.storyClusterIds);
+
+                const categoryIds = [...pref.preferredCategories]
+                    .sort((a, b) => (b.weight ?? 1) - (a.weight ?? 1))
+                    .map(entry => entry.categoryID.toString())
+                    .filter(categoryId => inputs.has(categoryId))
+                    .filter(categoryId => !inputs.get(categoryId).articles.every(article =>
+                        heardArticleIds.has(article._id.toString())
+                            || (!!article.storyClusterId && heardStories.has(article.storyClusterId))));
+
+                if (categoryIds.length) {
+                    categoryIdsByUser.set(userId, categoryIds);
+                }
+            }
+
+            // Categories every follower has already heard aren't summarized at all
+            const usedCategoryIds = new Set([...categoryIdsByUser.values()].flat());
+            for (const categoryId of [...inputs.keys()]) {
+                if (!usedCategoryIds.has(categoryId)) {
+                    inputs.delete(categoryId);
+                }
+            }
+
+            if (!categoryIdsByUser.size) {
+                logger.info('No category summaries needed, skipping external service call');
+                return { users: userPreferences.length, summaries: 0 };
+            }
+
+            for (const [categoryId, input] of inputs) {
+                const newsSummary = await NewsSummaries.create({
+                    summary: input.text,
+                    summaryType: 'category',
+                    categoryId,
+                    summaryTitle: input.category.name,
+                    articleCount: input.articles.length,
+                    articleIds: input.articles.map(article => article._id),
+                    batchId,
+                    cache: input.cache
+                });
+                input.newsSummaryId = newsSummary._id;
+            }
+
+            await summaryService.createBatchTracker(batchId, [...categoryIdsByUser.keys()], { categoryIdsByUser, deliverAtByUser });
+
+            for (const [userId, categoryIds] of categoryIdsByUser) {
+                for (const categoryId of categoryIds) {
+                    const input = inputs.get(categoryId);
+                    await listeningHistoryService.recordDeliveries(userId, input.articles, { newsSummaryId: input.newsSummaryId, batchId });
+                }
+            }
+
+            let failed = 0;
+            const entries = [...inputs.values()];
+
+            for (let i = 0; i < entries.length; i++) {
+                signal?.throwIfAborted();
+                try {
+                    await this.summarizeCategory(entries[i], batchId);
+                } catch (error) {
+                    failed++;
+                    logger.error(`Error summarizing category ${entries[i].category._id} in batch ${batchId}:`, error);
+                    await NewsSummaries.updateOne({ _id: entries[i].newsSummaryId }, { failedAt: new Date() });
+                }
+
+                if (i < entries.length - 1) {
+                    await this.delay(1000);
+                }
+            }
+
+            // Failed categories no longer hold mixes back: users whose other categories are all in get their mix
+            // now, the rest as their remaining summaries arrive by webhook
+            if (failed > 0) {
+                await this.assembleUserSummaries(batchId);
+            }
+
+            logger.info(`Completed scheduled category summary task for batch ${batchId}: ${inputs.size - failed}/${inputs.size} categories sent for ${categoryIdsByUser.size} users`);
+            return {
+                batchId,
+                users: categoryIdsByUser.size,
+                summaries: inputs.size - failed,
+                errors: failed,
+                details: { categories: inputs.size, failedCategories: failed }
+            };
+
+        } catch (error) {
+            logger.error('Error in scheduled category summary task:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Whether a summary webhook addressed to this id is one of the batch's category summaries;
+     * webhook backends echo the category id back in userId
+     */
+    async isCategoryInBatch(batchId: string, id: string): Promise<boolean> {
+        if (!mongoose.isValidObjectId(id)) {
+            return false;
+        }
+        return !!(await NewsSummaries.exists({ batchId, categoryId: id, summaryType: 'category' }));
+    }
+
+    /**
+     * Store a category's shared summary, then assemble the mixes of every user it completes
+     */
+    async saveCategorySummary(summary: string, categoryId: string, batchId: string): Promise<any> {
+        try {
+            const input = await NewsSummaries.findOne({ batchId, categoryId, summaryType: 'category' }).lean();
+            if (!input) {
+                throw new Error(`No category summary input for category ${categoryId} in batch ${batchId}`);
+            }
+
+            let categorySummary;
+            try {
+                // A retried delivery finds the summary already stored and leaves it as is
+                categorySummary = await AiSummaries.findOneAndUpdate(
+                    { batchId, categoryId, summaryType: 'category' },
+                    {
+                        $setOnInsert: {
+                            summary,
+                            summaryType: 'category',
+                            summaryTitle: input.summaryTitle,
+                            batchId,
+                            categoryId,
+                            articleIds: input.articleIds
+                        }
+                    },
+                    { upsert: true, new: true }
+                );
+            } catch (error: any) {
+                // Lost a race with a concurrent duplicate delivery
+                if (error?.code !== 11000) {
+                    throw error;
+                }
+                categorySummary = await AiSummaries.findOne({ batchId, categoryId, summaryType: 'category' });
+            }
+
+            await summaryCacheService.storeForInput({ batchId, categoryId, summaryType: 'category' }, summary, input.summaryTitle);
+            await this.assembleUserSummaries(batchId);
+            return categorySummary;
+
+        } catch (error) {
+            logger.error(`Error saving category summary for category ${categoryId} in batch ${batchId}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Join the category summaries of each waiting user into their mix and save it like any user summary,
+     * which links the batch item and drives batch completion and audio as usual.
+     * Without allowPartial a user waits until every one of their categories that didn't fail is summarized.
+     */
+    async assembleUserSummaries(batchId: string, allowPartial: boolean = false): Promise<number> {
+        const [items, categorySummaries, failedInputs] = await Promise.all([
+            batchItemService.getAwaitingSummary(batchId),
+            AiSummaries.find({ batchId, summaryType: 'category' }).lean(),
+            NewsSummaries.find({ batchId, summaryType: 'category', failedAt: { $exists: true } }).select('categoryId').lean()
+        ]);
+
+        const summariesByCategory = new Map(categorySummaries.map(summary => [summary.categoryId.toString(), summary]));
+        const failedCategoryIds = new Set(failedInputs.map(input => input.categoryId.toString()));
+
+        let assembled = 0;
+        for (const item of items) {
+            const categoryIds = (item.categoryIds || [])
+                .map(id => id.toString())
+                .filter(id => summariesByCategory.has(id) || !failedCategoryIds.has(id));
+            const parts = categoryIds.map(id => summariesByCategory.get(id)).filter(Boolean);
+
+            if (!parts.length || (!allowPartial && parts.length < categoryIds.length)) {
+                continue;
+            }
+
+            const summary = parts.map(part => `${part.summaryTitle}. ${part.summary}`).join('\n\n');
+            await webhookServices.saveSummary(summary, item.userId, 'user', 'Daily Mix', batchId);
+            assembled++;
+        }
+
+        if (assembled) {
+            logger.info(`Assembled ${assembled} user mixes from category summaries in batch ${batchId}`);
+        }
+        return assembled;
+    }
+
+    /**
+     * Send one category's input to the summarizer; a summary that comes back inline (or from cache) is saved straight away
+     */
+    private async summarizeCategory(input: CategoryInput, batchId: string): Promise<void> {
+        const categoryId = input.category._id.toString();
+
+        // Unchanged category since a recent run: reuse its summary without calling the provider
+        const cached = await summaryCacheService.lookup(input.cache);
+        if (cached) {
+            await this.saveCategorySummary(cached.summary, categoryId, batchId);
+            logger.info(`Summary cache hit for category ${categoryId} in batch ${batchId}, skipped ${this.summarizationProvider.name} provider`);
+            return;
+        }
+
+        const result = await this.summarizationProvider.summarize({
+            text: input.text,
+            userId: categoryId,
+            batchId,
+            maxLength: this.maxLength,
+        });
+
+        if (result.delivery === 'inline') {
+            await this.saveCategorySummary(result.summary, categoryId, batchId);
+            logger.info(`Category summary generated by ${this.summarizationProvider.name} provider for category ${categoryId} in batch ${batchId}`);
+            return;
+        }
+
+        logger.info(`Category summary requested for category ${categoryId} in batch ${batchId}. Result: ${result.raw}`);
+    }
+
+    private delay(ms: number): Promise<void> {
+        return new Promise(resolve => setTimeout(resolve, ms));
+    }
+}
+
+// Export singleton instance
+export const categorySummaryService = new CategorySummaryService();
@@ -21,3 +21,13 @@ export function shuffleArray<T>(array: T[]): T[] {
     }
     return shuffled;
 }
+
+/**
+ * Utility function to count the words in a piece of text
+ */
+export function countWords(text: string): number {
+    if (!text) return 0;
+
+    const trimmed = text.trim();
+    return trimmed ? trimmed.split(/\s+/).length : 0;
+}
@@ -0,0 +1,192 @@
+import { logger } from '../utils/logger';
+import { getLocalTime, zonedTimeToUtc } from '../utils/timezone';
+import UserDeliverySchedule from '../models/userDeliverySchedule';
+
+export interface DeliveryScheduleInput {
+    timezone: string;
+    deliverySlots: string[];
+    isEnabled?: boolean;
+}
+
+export interface DueDelivery {
+    userId: string;
+    deliverAt: Date; // Slot the mix has to be ready by
+}
+
+export class DeliveryScheduleService {
+    private defaultTimezone: string;
+    private leadMinutes: number;
+
+    constructor() {
+        // Users without a schedule of their own are on the scheduler's clock
+        this.defaultTimezone = process.env.TIMEZONE || 'UTC';
+        this.leadMinutes = parseInt(process.env.DELIVERY_LEAD_MINUTES || '60');
+    }
+
+    getDefaultTimezone(): string {
+        return this.defaultTimezone;
+    }
+
+    getLeadMinutes(): number {
+        return this.leadMinutes;
+    }
+
+    /**
+     * First slot strictly after an instant, on the zone's local clock
+     */
+    nextSlotAfter(slots: string[], timezone: string, after: Date): Date | null {
+        if (!slots.length) {
+            return null;
+        }
+
+        const local = getLocalTime(after, timezone);
+        const times = [...slots].sort().map(slot => slot.split(':').map(Number));
+
+        // Today's remaining slots, then tomorrow's; the extra day covers a slot lost to a DST jump
+        for (let dayOffset = 0; dayOffset <= 2; dayOffset++) {
+            for (const [hour, minute] of times) {
+                const at = zonedTimeToUtc(local.year, local.month, local.day + dayOffset, hour, minute, timezone);
+                if (at > after) {
+                    return at;
+                }
+            }
+        }
+
+        return null;
+    }
+
+    async getSchedule(userId: string): Promise<any | null> {
+        return UserDeliverySchedule.findOne({ userId }).lean();
+    }
+
+    /**
+     * Create or replace a user's schedule and work out their next slot
+     */
+    async saveSchedule(userId: string, input: DeliveryScheduleInput): Promise<any> {
+        try {
+            const deliverySlots = [...new Set(input.deliverySlots)].sort();
+            const isEnabled = input.isEnabled ?? true;
+            const nextDeliveryAt = isEnabled ? this.nextSlotAfter(deliverySlots, input.timezone, new Date()) : null;
+
+            const schedule = await UserDeliverySchedule.findOneAndUpdate(
+                { userId },
+                {
+                    timezone: input.timezone,
+                    deliverySlots,
+                    isEnabled,
+                    ...(nextDeliveryAt ? { nextDeliveryAt } : { $unset: { nextDeliveryAt: 1 } })
+                },
+                { upsert: true, new: true, setDefaultsOnInsert: true }
+            ).lean();
+
+            logger.info(`Saved delivery schedule for user ${userId}: ${deliverySlots.join(', ')} ${input.timezone}, next at ${nextDeliveryAt?.toISOString() ?? 'never'}`);
+            return schedule;
+
+        } catch (error) {
+            logger.error(`Error saving delivery schedule for user ${userId}:`, error);
+            throw error;
+        }
+    }
+
+    async deleteSchedule(userId: string): Promise<boolean> {
+        const result = await UserDeliverySchedule.deleteOne({ userId });
+        return result.deletedCount > 0;
+    }
+
+    /**
+     * Users whose mixes are generated for their own slots, and so are left out of the global run
+     */
+    async getScheduledUserIds(): Promise<string[]> {
+        return UserDeliverySchedule.distinct('userId', { isEnabled: true, 'deliverySlots.0': { $exists: true } });
+    }
+
+    /**
+     * UserCategoryPreference filter for a summary run: the users whose slot is due, or for the
+     * global run everyone who has no schedule of their own
+     */
+    async getRunUserFilter(deliverAtByUser?: Map<string, Date>): Promise<Record<string, any>> {
+        if (deliverAtByUser) {
+            return { userId: { $in: [...deliverAtByUser.keys()] } };
+        }
+
+        const scheduledUserIds = await this.getScheduledUserIds();
+        return scheduledUserIds.length ? { userId: { $nin: scheduledUserIds } } : {};
+    }
+
+    async getTimezone(userId: string): Promise<string> {
+        const schedule = await UserDeliverySchedule.findOne({ userId }).select('timezone').lean();
+        return schedule?.timezone || this.defaultTimezone;
+    }
+
+    /**
+     * Users whose next slot starts within the lead time, each claimed once by moving their
+     * nextDeliveryAt on to the following slot. The claimed slot stays pending until completeDeliveries;
+     * a claim still pending after the lead time (its run failed or died) is claimed again.
+     */
+    async claimDueDeliveries(now: Date = new Date()): Promise<DueDelivery[]> {
+        const horizon = new Date(now.getTime() + this.leadMinutes * 60 * 1000);
+        const staleBefore = new Date(now.getTime() - this.leadMinutes * 60 * 1000);
+        const dueSchedules = await UserDeliverySchedule.find({
+            isEnabled: true,
+            $or: [
+                { pendingDeliveryAt: { $exists: false }, nextDeliveryAt: { $lte: horizon } },
+                { pendingClaimedAt: { $lte: staleBefore } }
+            ]
+        }).lean();
+
+        const claimed: DueDelivery[] = [];
+        for (const schedule of dueSchedules) {
+            const slot = schedule.pendingDeliveryAt ?? schedule.nextDeliveryAt;
+
+            // A slot missed while the service was down is delivered once, as soon as possible
+            const deliverAt = slot < now ? now : slot;
+
+            // Conditional on the claim or slot we read, so a concurrent run can't claim it too
+            let updated;
+            if (schedule.pendingDeliveryAt) {
+                logger.warn(`Delivery for user ${schedule.userId} at ${slot.toISOString()} was claimed at ${schedule.pendingClaimedAt.toISOString()} but never completed, claiming it again`);
+                updated = await UserDeliverySchedule.findOneAndUpdate(
+                    { _id: schedule._id, pendingClaimedAt: schedule.pendingClaimedAt },
+                    { pendingClaimedAt: now }
+                );
+            } else {
+                const nextDeliveryAt = this.nextSlotAfter(schedule.deliverySlots, schedule.timezone, deliverAt);
+                updated = await UserDeliverySchedule.findOneAndUpdate(
+                    { _id: schedule._id, nextDeliveryAt: slot, pendingDeliveryAt: { $exists: false } },
+                    {
+                        pendingDeliveryAt: slot,
+                        pendingClaimedAt: now,
+                        ...(nextDeliveryAt ? { nextDeliveryAt } : { $unset: { nextDeliveryAt: 1 } })
+                    }
+                );
+            }
+
+            if (updated) {
+                claimed.push({ userId: schedule.userId, deliverAt });
+            }
+        }
+
+        if (claimed.length) {
+            logger.info(`Claimed ${claimed.length} due deliveries`);
+        }
+        return claimed;
+    }
+
+    /**
+     * Settle users' pending claims once their batch exists (or the run found nothing to generate for them)
+     */
+    async completeDeliveries(userIds: string[]): Promise<void> {
+        if (!userIds.length) return;
+
+        await UserDeliverySchedule.updateMany(
+            { userId: { $in: userIds }, pendingDeliveryAt: { $exists: true } },
+            [
+                { $set: { lastScheduledAt: '$pendingDeliveryAt' } },
+                { $unset: ['pendingDeliveryAt', 'pendingClaimedAt'] }
+            ]
+        );
+    }
+}
+
+// Export singleton instance
+export const deliveryScheduleService = new DeliveryScheduleService();
@@ -0,0 +1,235 @@
+import Parser from 'rss-parser';
+import { logger } from '../utils/logger';
+import FeedSource, { IFeedSource } from '../models/feedSource';
+import NewsArticle from '../models/newsArticles';
+import Category from '../models/categories';
+import { countWords } from './commonFunctions';
+import { articleDedupService } from './articleDedupService';
+
+type FeedItem = Parser.Item & { 'content:encoded'?: string; id?: string; updated?: string };
+
+interface FeedIngestionResult {
+    feedId: string;
+    url: string;
+    itemCount: number;
+    insertedCount: number;
+    updatedCount: number;
+    skippedCount: number;
+    error?: string;
+}
+
+export class FeedIngestionService {
+    private parser: Parser<{}, FeedItem>;
+    private maxItemsPerFeed: number;
+
+    constructor() {
+        // rss-parser understands both RSS 2.0 (<rss><channel><item>) and Atom (<feed><entry>)
+        this.parser = new Parser<{}, FeedItem>({
+            timeout: parseInt(process.env.FEED_FETCH_TIMEOUT_MS || '15000'),
+            headers: {
+                'User-Agent': process.env.FEED_USER_AGENT || 'summaryService/1.0 (+rss ingestion)'
+            },
+            customFields: {
+                item: ['content:encoded', 'id', 'updated']
+            }
+        });
+        this.maxItemsPerFeed = parseInt(process.env.FEED_MAX_ITEMS || '50');
+    }
+
+    /**
+     * Poll every enabled feed whose poll interval has elapsed
+     */
+    async pollDueFeeds(): Promise<FeedIngestionResult[]> {
+        try {
+            const now = new Date();
+
+            const dueFeeds = await FeedSource.find({
+                isEnabled: true,
+                $or: [
+                    { nextPollAt: { $exists: false } },
+                    { nextPollAt: null },
+                    { nextPollAt: { $lte: now } }
+                ]
+            });
+
+            logger.info(`Found ${dueFeeds.length} feeds due for polling`);
+
+            const results: FeedIngestionResult[] = [];
+
+            // Poll feeds sequentially so a slow publisher doesn't hog all sockets
+            for (const feed of dueFeeds) {
+                results.push(await this.ingestFeed(feed));
+            }
+
+            const inserted = results.reduce((sum, r) => sum + r.insertedCount, 0);
+            const failed = results.filter(r => r.error).length;
+            logger.info(`Feed ingestion finished: ${results.length} feeds polled, ${inserted} new articles, ${failed} feeds failed`);
+
+            return results;
+
+        } catch (error) {
+            logger.error('Error polling due feeds:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Fetch a single feed and upsert its items into NewsArticle
+     */
+    async ingestFeed(feed: IFeedSource): Promise<FeedIngestionResult> {
+        const result: FeedIngestionResult = {
+            feedId: feed._id.toString(),
+            url: feed.url,
+            itemCount: 0,
+            insertedCount: 0,
+            updatedCount: 0,
+            skippedCount: 0
+        };
+        const polledAt = new Date();
+
+        try {
+            const category = await Category.findById(feed.categoryId).lean();
+            if (!category) {
+                throw new Error(`Category ${feed.categoryId} not found for feed ${feed.url}`);
+            }
+
+            const parsed = await this.parser.parseURL(feed.url);
+            const items = (parsed.items || []).slice(0, this.maxItemsPerFeed);
+            const source = feed.source || parsed.title || feed.name;
+
+            result.itemCount = items.length;
+
+            const operations = [];
+            const seenUrls = new Set<string>();
+            for (const item of items) {
+                const article = this.mapItemToArticle(item, polledAt);
+                if (!article) {
+                    result.skippedCount++;
+                    continue;
+                }
+
+                // Exact dedupe: the same story linked twice (tracking params, amp pages, www.) is one article
+                const canonicalUrl = articleDedupService.normalizeUrl(article.url, feed.trackingParams);
+                if (seenUrls.has(canonicalUrl)) {
+                    result.skippedCount++;
+                    continue;
+                }
+                seenUrls.add(canonicalUrl);
+
+                operations.push({
+                    updateOne: {
+                        // Articles stored before canonicalUrl existed are still matched by their raw url
+                        filter: { $or: [{ canonicalUrl }, { url: article.url }] },
+                        update: {
+                            $set: {
+                                canonicalUrl,
+                                title: article.title,
+                                description: article.description,
+                                publishedAt: article.publishedAt,
+                                categoryId: feed.categoryId,
+                                categoryName: category.name,
+                                source,
+                                feedSourceId: feed._id
+                            },
+                            // Don't clobber text filled in by the extraction stage
+                            $setOnInsert: {
+                                url: article.url,
+                                ...(article.fullText
+                                    ? { fullText: article.fullText, wordCount: countWords(article.fullText), extractionStatus: 'extracted', extractedAt: polledAt }
+                                    : { extractionStatus: 'pending' })
+                            }
+                        },
+                        upsert: true
+                    }
+                });
+            }
+
+            if (operations.length) {
+                const writeResult = await NewsArticle.bulkWrite(operations, { ordered: false });
+                result.insertedCount = writeResult.upsertedCount;
+                result.updatedCount = writeResult.modifiedCount;
+            }
+
+            await FeedSource.updateOne(
+                { _id: feed._id },
+                {
+                    lastPolledAt: polledAt,
+                    lastSuccessAt: polledAt,
+                    nextPollAt: this.getNextPollAt(feed, polledAt),
+                    lastItemCount: result.itemCount,
+                    $unset: { lastError: 1 }
+                }
+            );
+
+            logger.info(`Ingested feed ${feed.url}: ${result.itemCount} items, ${result.insertedCount} new, ${result.updatedCount} updated, ${result.skippedCount} skipped`);
+
+        } catch (error) {
+            result.error = error instanceof Error ? error.message : 'Unknown error';
+            logger.error(`Error ingesting feed ${feed.url}:`, error);
+
+            // Still push nextPollAt forward so a broken feed doesn't get hammered every cron tick
+            await FeedSource.updateOne(
+                { _id: feed._id },
+                {
+                    lastPolledAt: polledAt,
+                    nextPollAt: this.getNextPollAt(feed, polledAt),
+                    lastError: result.error
+                }
+            ).catch(updateError => logger.error(`Error recording failure for feed ${feed.url}:`, updateError));
+        }
+
+        return result;
+    }
+
+    /**
+     * Normalise an RSS 2.0 item or Atom entry into NewsArticle fields
+     */
+    private mapItemToArticle(item: FeedItem, fallbackDate: Date): { title: string; description: string; fullText?: string; url: string; publishedAt: Date } | null {
+        const url = (item.link || item.guid || item.id || '').trim();
+        const title = (item.title || '').trim();
+
+        if (!url || !title || !/^https?:\/\//i.test(url)) {
+            return null;
+        }
+
+        const description = (item.contentSnippet || this.stripHtml(item.summary) || '').trim();
+        const encoded = this.stripHtml(item['content:encoded']);
+
+        return {
+            title,
+            description,
+            // Only treat content:encoded as full text when it's meaningfully longer than the teaser
+            fullText: encoded && encoded.length > description.length * 2 ? encoded : undefined,
+            url,
+            publishedAt: this.parseDate(item.isoDate || item.pubDate || item.updated) || fallbackDate
+        };
+    }
+
+    private parseDate(value?: string): Date | null {
+        if (!value) return null;
+        const date = new Date(value);
+        return isNaN(date.getTime()) ? null : date;
+    }
+
+    private stripHtml(html?: string): string {
+        if (!html) return '';
+        return html
+            .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+            .replace(/<[^>]+>/g, ' ')
+            .replace(/&nbsp;/g, ' ')
+            .replace(/&amp;/g, '&')
+            .replace(/&lt;/g, '<')
+            .replace(/&gt;/g, '>')
+            .replace(/&quot;/g, '"')
+            .replace(/&#39;/g, "'")
+            .replace(/\s+/g, ' ')
+            .trim();
+    }
+
+    private getNextPollAt(feed: IFeedSource, from: Date): Date {
+        return new Date(from.getTime() + (feed.pollIntervalMinutes || 30) * 60 * 1000);
+    }
+}
+
+// Export singleton instance
+export const feedIngestionService = new FeedIngestionService();
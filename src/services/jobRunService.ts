@@ -0,0 +1,168 @@
+import { logger } from '../utils/logger';
+import { Cursor, cursorFilter, encodeCursor } from '../utils/cursor';
+import JobRun, { JobName, JobTrigger, JobRunStatus } from '../models/jobRun';
+import { leaseLockService } from './leaseLockService';
+
+export interface JobRunResult {
+    batchId?: string;
+    users?: number;
+    summaries?: number;
+    errors?: number;
+    details?: any;
+}
+
+export interface ListJobRunsOptions {
+    limit: number;
+    cursor?: Cursor;
+    jobs?: JobName[];
+    statuses?: JobRunStatus[];
+    trigger?: JobTrigger;
+    from?: Date;
+    to?: Date;
+}
+
+export class JobRunService {
+    private retentionDays: number;
+
+    constructor() {
+        this.retentionDays = parseInt(process.env.JOB_RUN_RETENTION_DAYS || '30');
+    }
+
+    /**
+     * Record a job run around the job itself. The job's own errors are recorded and rethrown;
+     * failing to write the record never stops the job.
+     */
+    async track(job: JobName, trigger: JobTrigger, run: () => Promise<JobRunResult | void>): Promise<void> {
+        const runId = await this.start(job, trigger);
+
+        try {
+            const result = await run();
+            await this.finish(runId, 'succeeded', result || {});
+        } catch (error) {
+            await this.finish(runId, 'failed', {}, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Record a run that didn't happen, e.g. because another instance holds the job's lease
+     */
+    async recordSkipped(job: JobName, trigger: JobTrigger, reason: string): Promise<void> {
+        try {
+            const now = new Date();
+            await JobRun.create({
+                job,
+                trigger,
+                status: 'skipped',
+                instanceId: leaseLockService.getOwnerId(),
+                startedAt: now,
+                finishedAt: now,
+                durationMs: 0,
+                skipReason: reason,
+                expiresAt: this.getExpiry(now)
+            });
+        } catch (error) {
+            logger.error(`Error recording skipped ${job} run:`, error);
+        }
+    }
+
+    /**
+     * Runs newest first, with cursor pagination
+     */
+    async listRuns(options: ListJobRunsOptions): Promise<{ runs: any[]; nextCursor: string | null }> {
+        try {
+            const filter: any = {};
+
+            if (options.jobs?.length) {
+                filter.job = { $in: options.jobs };
+            }
+            if (options.statuses?.length) {
+                filter.status = { $in: options.statuses };
+            }
+            if (options.trigger) {
+                filter.trigger = options.trigger;
+            }
+            if (options.from || options.to) {
+                filter.createdAt = {
+                    ...(options.from && { $gte: options.from }),
+                    ...(options.to && { $lte: options.to })
+                };
+            }
+            if (options.cursor) {
+                Object.assign(filter, cursorFilter(options.cursor));
+            }
+
+            // Fetch one extra to know whether another page exists
+            const runs = await JobRun.find(filter)
+                .sort({ createdAt: -1, _id: -1 })
+                .limit(options.limit + 1)
+                .lean();
+
+            const hasMore = runs.length > options.limit;
+            const page = hasMore ? runs.slice(0, options.limit) : runs;
+
+            return {
+                runs: page,
+                nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null
+            };
+
+        } catch (error) {
+            logger.error('Error listing job runs:', error);
+            throw error;
+        }
+    }
+
+    async getRun(runId: string): Promise<any | null> {
+        return JobRun.findById(runId).lean();
+    }
+
+    private async start(job: JobName, trigger: JobTrigger): Promise<string | null> {
+        try {
+            const now = new Date();
+            const run = await JobRun.create({
+                job,
+                trigger,
+                status: 'running',
+                instanceId: leaseLockService.getOwnerId(),
+                startedAt: now,
+                expiresAt: this.getExpiry(now)
+            });
+            return run._id.toString();
+        } catch (error) {
+            logger.error(`Error recording start of ${job} run:`, error);
+            return null;
+        }
+    }
+
+    private async finish(runId: string | null, status: JobRunStatus, result: JobRunResult, error?: any): Promise<void> {
+        if (!runId) return;
+
+        try {
+            const run = await JobRun.findById(runId).select('startedAt').lean();
+            const finishedAt = new Date();
+
+            await JobRun.updateOne({ _id: runId }, {
+                status,
+                finishedAt,
+                durationMs: run ? finishedAt.getTime() - new Date(run.startedAt).getTime() : undefined,
+                batchId: result.batchId,
+                counts: {
+                    users: result.users ?? 0,
+                    summaries: result.summaries ?? 0,
+                    errors: result.errors ?? (error ? 1 : 0)
+                },
+                details: result.details,
+                ...(error && { error: error?.message || String(error) })
+            });
+        } catch (recordError) {
+            logger.error(`Error recording end of job run ${runId}:`, recordError);
+        }
+    }
+
+    private getExpiry(from: Date): Date {
+        return new Date(from.getTime() + this.retentionDays * 24 * 60 * 60 * 1000);
+    }
+}
+
+// Export singleton instance
+export const jobRunService = new JobRunService();
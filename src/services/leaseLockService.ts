@@ -0,0 +1,164 @@
+import os from 'os';
+import crypto from 'crypto';
+import { logger } from '../utils/logger';
+import SchedulerLock from '../models/schedulerLock';
+
+export interface LeaseLockStatus {
+    name: string;
+    owner: string | null; // Current holder, or the last one once the lease was released
+    isHeld: boolean; // A live lease exists
+    isOwner: boolean; // Held by this instance
+    acquiredAt: Date | null;
+    expiresAt: Date | null;
+    lastRunSlot: Date | null;
+    checkedAt: Date;
+}
+
+export interface LeaseRunOptions {
+    slot?: Date; // Scheduled fire time; a slot another instance already claimed is not run again
+}
+
+export interface LeaseRunResult {
+    ran: boolean;
+    skipReason?: string; // Why the job didn't run on this instance
+}
+
+/**
+ * Mongo-backed lease locks, so a scheduled job runs on one instance at a time.
+ * A holder renews its lease on a heartbeat; a lease that isn't renewed within the TTL
+ * (crashed or hung instance) can be taken over. Runs tied to a cron slot record it on the lease,
+ * so replicas firing late for a slot that already ran skip it rather than running it again.
+ */
+export class LeaseLockService {
+    private ownerId: string;
+    private ttlMs: number;
+
+    constructor() {
+        this.ownerId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+        this.ttlMs = parseInt(process.env.SCHEDULER_LOCK_TTL_SECONDS || '120') * 1000;
+    }
+
+    getOwnerId(): string {
+        return this.ownerId;
+    }
+
+    /**
+     * Take the lease if it's free, expired or already ours, and for a slot only if no run claimed it yet.
+     * Returns null once taken, or why it couldn't be.
+     */
+    async tryAcquire(name: string, slot?: Date): Promise<string | null> {
+        const now = new Date();
+        const conditions: Record<string, any>[] = [{ $or: [{ owner: this.ownerId }, { expiresAt: { $lte: now } }] }];
+        if (slot) {
+            conditions.push({ $or: [{ lastRunSlot: { $exists: false } }, { lastRunSlot: { $lt: slot } }] });
+        }
+
+        try {
+            await SchedulerLock.findOneAndUpdate(
+                { name, $and: conditions },
+                {
+                    name,
+                    owner: this.ownerId,
+                    acquiredAt: now,
+                    heartbeatAt: now,
+                    expiresAt: new Date(now.getTime() + this.ttlMs),
+                    ...(slot && { lastRunSlot: slot })
+                },
+                { upsert: true }
+            );
+            return null;
+
+        } catch (error: any) {
+            // The upsert collided with a live lease held by another instance, or with a slot that already ran
+            if (error?.code !== 11000) {
+                throw error;
+            }
+
+            const holder = await SchedulerLock.findOne({ name }).lean();
+            if (slot && holder?.lastRunSlot && holder.lastRunSlot >= slot) {
+                return `Slot ${slot.toISOString()} already run by ${holder.owner}`;
+            }
+            return `Lease held by ${holder?.owner ?? 'another instance'}`;
+        }
+    }
+
+    /**
+     * Extend our lease; false if it expired and someone else took it
+     */
+    async renew(name: string): Promise<boolean> {
+        const now = new Date();
+
+        const result = await SchedulerLock.updateOne(
+            { name, owner: this.ownerId, expiresAt: { $gt: now } },
+            { heartbeatAt: now, expiresAt: new Date(now.getTime() + this.ttlMs) }
+        );
+
+        if (!result.matchedCount) {
+            logger.error(`Lost lease ${name}: another instance took it over while this one was still running`);
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Expire our lease rather than deleting it, so the slot it ran for stays recorded
+     */
+    async release(name: string): Promise<void> {
+        await SchedulerLock.updateOne({ name, owner: this.ownerId }, { expiresAt: new Date() });
+    }
+
+    /**
+     * Run a job under a lease, renewing it every third of the TTL until the job settles.
+     * Skips the job when another instance holds the lease or already ran the slot. If the lease is lost
+     * mid-run the job's signal is aborted, and the run throws the abort reason even if the job ignored it.
+     */
+    async runExclusive(name: string, job: (signal: AbortSignal) => Promise<void>, options: LeaseRunOptions = {}): Promise<LeaseRunResult> {
+        const refusal = await this.tryAcquire(name, options.slot);
+        if (refusal) {
+            return { ran: false, skipReason: refusal };
+        }
+
+        const controller = new AbortController();
+        const heartbeat = setInterval(() => {
+            this.renew(name)
+                .then(renewed => {
+                    if (!renewed && !controller.signal.aborted) {
+                        controller.abort(new Error(`Lease ${name} was lost to another instance mid-run`));
+                    }
+                })
+                .catch(error => logger.error(`Error renewing lease ${name}:`, error));
+        }, Math.max(1000, Math.floor(this.ttlMs / 3)));
+
+        try {
+            await job(controller.signal);
+            controller.signal.throwIfAborted();
+            return { ran: true };
+        } finally {
+            clearInterval(heartbeat);
+            await this.release(name).catch(error => logger.error(`Error releasing lease ${name}:`, error));
+        }
+    }
+
+    /**
+     * Lease holder as stored in Mongo, so every instance reports the same holder
+     */
+    async getStatus(name: string): Promise<LeaseLockStatus> {
+        const lock = await SchedulerLock.findOne({ name }).lean();
+        const now = new Date();
+        const isHeld = !!lock && lock.expiresAt > now;
+
+        return {
+            name,
+            owner: lock?.owner ?? null,
+            isHeld,
+            isOwner: isHeld && lock.owner === this.ownerId,
+            acquiredAt: lock?.acquiredAt ?? null,
+            expiresAt: lock?.expiresAt ?? null,
+            lastRunSlot: lock?.lastRunSlot ?? null,
+            checkedAt: now
+        };
+    }
+}
+
+// Export singleton instance
+export const leaseLockService = new LeaseLockService();
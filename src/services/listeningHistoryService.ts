@@ -0,0 +1,130 @@
+import mongoose from 'mongoose';
+import { logger } from '../utils/logger';
+import ListeningHistory, { HISTORY_TTL_DAYS } from '../models/listeningHistory';
+import NewsSummaries from '../models/newsSummaries';
+
+export interface RecentDeliveries {
+    articleIds: mongoose.Types.ObjectId[];
+    storyClusterIds: string[];
+}
+
+export class ListeningHistoryService {
+    private exclusionWindowHours: number;
+
+    constructor() {
+        // 0 turns exclusion off; history is still recorded
+        this.exclusionWindowHours = parseInt(process.env.HISTORY_EXCLUSION_HOURS || '48');
+
+        // History expires after HISTORY_TTL_DAYS, so a longer window would silently look at less than it claims
+        const maxHours = HISTORY_TTL_DAYS * 24;
+        if (this.exclusionWindowHours > maxHours) {
+            logger.warn(`HISTORY_EXCLUSION_HOURS=${this.exclusionWindowHours} exceeds the ${maxHours}h listening history retention, using ${maxHours}h`);
+            this.exclusionWindowHours = maxHours;
+        }
+    }
+
+    getExclusionWindowHours(): number {
+        return this.exclusionWindowHours;
+    }
+
+    /**
+     * Articles and story clusters a user heard within the exclusion window
+     */
+    async getRecentDeliveries(userId: string, now: Date = new Date()): Promise<RecentDeliveries> {
+        if (this.exclusionWindowHours <= 0) {
+            return { articleIds: [], storyClusterIds: [] };
+        }
+
+        const since = new Date(now.getTime() - this.exclusionWindowHours * 60 * 60 * 1000);
+        const history = await ListeningHistory.find({ userId, confirmedAt: { $gte: since } })
+            .select('articleId storyClusterId')
+            .lean();
+
+        return {
+            articleIds: history.map(entry => entry.articleId),
+            storyClusterIds: [...new Set(history.map(entry => entry.storyClusterId).filter(Boolean))]
+        };
+    }
+
+    /**
+     * Record the articles that went into a user's summary input. They only count as heard once
+     * confirmDeliveries runs for the finished mix, so a failed summary or TTS leaves them selectable.
+     */
+    async recordDeliveries(
+        userId: string,
+        articles: { _id: any; storyClusterId?: string; categoryId?: any }[],
+        refs: { newsSummaryId?: any; batchId?: string } = {}
+    ): Promise<void> {
+        if (!articles.length) return;
+
+        try {
+            const deliveredAt = new Date();
+
+            await ListeningHistory.bulkWrite(articles.map(article => ({
+                updateOne: {
+                    filter: { userId, articleId: article._id },
+                    update: {
+                        $set: {
+                            deliveredAt,
+                            storyClusterId: article.storyClusterId,
+                            categoryId: article.categoryId,
+                            newsSummaryId: refs.newsSummaryId,
+                            batchId: refs.batchId
+                        },
+                        $unset: { aiSummaryId: 1, confirmedAt: 1 }
+                    },
+                    upsert: true
+                }
+            })), { ordered: false });
+
+        } catch (error) {
+            // A missing history row only means the article may repeat; the summary itself is fine
+            logger.error(`Error recording listening history for user ${userId}:`, error);
+        }
+    }
+
+    /**
+     * Mark the history behind a mix as heard, once its audio is ready.
+     * Matches by the AiSummaries record, or by user and batch for batch-level audio.
+     */
+    async confirmDeliveries(criteria: { aiSummaryId?: string; userId?: string; batchId?: string }): Promise<void> {
+        const filter = criteria.aiSummaryId
+            ? { aiSummaryId: criteria.aiSummaryId }
+            : { userId: criteria.userId, batchId: criteria.batchId };
+
+        try {
+            await ListeningHistory.updateMany({ ...filter, confirmedAt: { $exists: false } }, { confirmedAt: new Date() });
+        } catch (error) {
+            // Unconfirmed history only means the articles may repeat
+            logger.error('Error confirming listening history:', error);
+        }
+    }
+
+    /**
+     * Articles that went into the summary generated for a user in a batch
+     */
+    async getBatchArticleIds(userId: string, batchId: string): Promise<mongoose.Types.ObjectId[]> {
+        const newsSummary = await NewsSummaries.findOne({ userId, batchId }).sort({ createdAt: -1 }).select('articleIds').lean();
+        if (newsSummary) {
+            return newsSummary.articleIds || [];
+        }
+
+        // Mixes assembled from shared category summaries have no per-user input, only the history recorded for them
+        const history = await ListeningHistory.find({ userId, batchId }).select('articleId').lean();
+        return history.map(entry => entry.articleId);
+    }
+
+    /**
+     * Point the user's history for a batch at the AiSummaries record saved for it
+     */
+    async linkAiSummary(userId: string, batchId: string, aiSummaryId: any): Promise<void> {
+        try {
+            await ListeningHistory.updateMany({ userId, batchId }, { aiSummaryId });
+        } catch (error) {
+            logger.error(`Error linking listening history for user ${userId} in batch ${batchId}:`, error);
+        }
+    }
+}
+
+// Export singleton instance
+export const listeningHistoryService = new ListeningHistoryService();
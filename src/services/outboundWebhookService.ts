@@ -0,0 +1,250 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { logger } from '../utils/logger';
+import { buildSignatureHeaders } from '../utils/webhookSigning';
+import WebhookSubscription, { IWebhookSubscription, OutboundWebhookEvent } from '../models/webhookSubscription';
+import WebhookDelivery, { IWebhookDelivery } from '../models/webhookDelivery';
+
+export const EVENT_HEADER = 'x-webhook-event';
+export const DELIVERY_HEADER = 'x-webhook-delivery-id';
+
+export class OutboundWebhookService {
+    private maxAttempts: number;
+    private requestTimeoutMs: number;
+    private baseDelayMs: number;
+    private maxDelayMs: number;
+    private maxLoggedAttempts: number;
+
+    constructor() {
+        this.maxAttempts = parseInt(process.env.OUTBOUND_WEBHOOK_MAX_ATTEMPTS || '6');
+        this.requestTimeoutMs = parseInt(process.env.OUTBOUND_WEBHOOK_TIMEOUT_MS || '10000');
+        this.baseDelayMs = parseInt(process.env.OUTBOUND_WEBHOOK_RETRY_BASE_DELAY_MS || '30000');
+        this.maxDelayMs = parseInt(process.env.OUTBOUND_WEBHOOK_RETRY_MAX_DELAY_MS || '3600000');
+        this.maxLoggedAttempts = parseInt(process.env.OUTBOUND_WEBHOOK_ATTEMPT_LOG_SIZE || '20');
+    }
+
+    /**
+     * Generate a signing secret for a new subscription
+     */
+    generateSecret(): string {
+        return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+    }
+
+    /**
+     * Queue an event for every active subscription listening to it and try to send it straight away.
+     * Never throws: a notification problem must not fail the work that raised the event.
+     */
+    async publish(event: OutboundWebhookEvent, data: Record<string, any>): Promise<number> {
+        try {
+            const subscriptions = await WebhookSubscription.find({ isActive: true, events: event }).select('_id').lean();
+            if (!subscriptions.length) {
+                return 0;
+            }
+
+            const eventId = `evt_${crypto.randomUUID()}`;
+            const now = new Date();
+            const payload = {
+                id: eventId,
+                event,
+                createdAt: now.toISOString(),
+                data
+            };
+
+            const deliveries = await WebhookDelivery.insertMany(subscriptions.map(subscription => ({
+                subscriptionId: subscription._id,
+                event,
+                eventId,
+                payload,
+                status: 'pending',
+                maxAttempts: this.maxAttempts,
+                nextAttemptAt: now
+            })));
+
+            logger.info(`Queued ${event} (${eventId}) for ${deliveries.length} subscriptions`);
+
+            // Send in the background; anything that fails here is picked up by processDueDeliveries
+            for (const delivery of deliveries) {
+                this.attemptDelivery(delivery._id.toString()).catch(error => {
+                    logger.error(`Error sending webhook delivery ${delivery._id}:`, error);
+                });
+            }
+
+            return deliveries.length;
+
+        } catch (error) {
+            logger.error(`Error publishing outbound webhook event ${event}:`, error);
+            return 0;
+        }
+    }
+
+    /**
+     * Send every delivery whose retry time has come, plus any left in "sending" by a crashed process
+     */
+    async processDueDeliveries(): Promise<void> {
+        try {
+            const now = new Date();
+            const due = await WebhookDelivery.find({
+                $or: [
+                    { status: { $in: ['pending', 'retrying'] }, nextAttemptAt: { $lte: now } },
+                    { status: 'sending', lastAttemptAt: { $lte: this.getStaleSendCutoff(now) } }
+                ]
+            })
+                .sort({ nextAttemptAt: 1 })
+                .select('_id')
+                .lean();
+
+            if (!due.length) return;
+
+            logger.info(`Processing ${due.length} due outbound webhook deliveries`);
+
+            for (const delivery of due) {
+                await this.attemptDelivery(delivery._id.toString());
+            }
+
+        } catch (error) {
+            logger.error('Error processing outbound webhook deliveries:', error);
+        }
+    }
+
+    /**
+     * Queue a delivered or failed delivery to be sent again with a fresh attempt budget
+     */
+    async redeliver(deliveryId: string): Promise<IWebhookDelivery | null> {
+        const existing = await WebhookDelivery.findById(deliveryId).select('status attemptCount').lean();
+        if (!existing) {
+            return null;
+        }
+
+        const delivery = await WebhookDelivery.findOneAndUpdate(
+            { _id: deliveryId, status: { $in: ['delivered', 'failed'] }, attemptCount: existing.attemptCount },
+            {
+                status: 'pending',
+                nextAttemptAt: new Date(),
+                maxAttempts: existing.attemptCount + this.maxAttempts,
+                $unset: { failedAt: 1 }
+            },
+            { new: true }
+        );
+
+        if (delivery) {
+            logger.info(`Redelivering webhook delivery ${deliveryId} (${delivery.event})`);
+            await this.attemptDelivery(deliveryId);
+        }
+
+        return WebhookDelivery.findById(deliveryId);
+    }
+
+    /**
+     * Claim a delivery and POST it to its subscription. Claiming is atomic, so a delivery picked up by
+     * both publish() and the maintenance run is only sent once.
+     */
+    private async attemptDelivery(deliveryId: string): Promise<void> {
+        const now = new Date();
+        const delivery = await WebhookDelivery.findOneAndUpdate(
+            {
+                _id: deliveryId,
+                $or: [
+                    { status: { $in: ['pending', 'retrying'] }, nextAttemptAt: { $lte: now } },
+                    { status: 'sending', lastAttemptAt: { $lte: this.getStaleSendCutoff(now) } }
+                ]
+            },
+            { status: 'sending', lastAttemptAt: now },
+            { new: true }
+        );
+
+        if (!delivery) return;
+
+        const subscription = await WebhookSubscription.findById(delivery.subscriptionId).select('+secret');
+        if (!subscription || !subscription.isActive) {
+            await this.recordAttempt(delivery, { attemptedAt: now, durationMs: 0, error: 'Subscription deleted or disabled' }, true);
+            return;
+        }
+
+        const startTime = Date.now();
+        try {
+            const response = await this.send(subscription, delivery);
+            const attempt = { attemptedAt: now, responseStatus: response.status, durationMs: Date.now() - startTime };
+
+            if (response.status >= 200 && response.status < 300) {
+                await this.recordAttempt(delivery, attempt);
+                await WebhookSubscription.updateOne({ _id: subscription._id }, { lastDeliveryAt: new Date() });
+                logger.info(`Delivered ${delivery.event} (${delivery.eventId}) to ${subscription.url}`);
+            } else {
+                await this.recordAttempt(delivery, { ...attempt, error: `Receiver responded with HTTP ${response.status}` });
+            }
+
+        } catch (error) {
+            await this.recordAttempt(delivery, {
+                attemptedAt: now,
+                durationMs: Date.now() - startTime,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    private async send(subscription: IWebhookSubscription, delivery: IWebhookDelivery) {
+        const body = JSON.stringify(delivery.payload);
+
+        return axios.post(subscription.url, body, {
+            timeout: this.requestTimeoutMs,
+            headers: {
+                'Content-Type': 'application/json',
+                [EVENT_HEADER]: delivery.event,
+                [DELIVERY_HEADER]: delivery._id.toString(),
+                ...buildSignatureHeaders(subscription.secret, body)
+            },
+            // Any HTTP response is an answer from the receiver; only transport errors throw
+            validateStatus: () => true
+        });
+    }
+
+    /**
+     * Log an attempt and move the delivery to delivered, retrying or failed
+     */
+    private async recordAttempt(
+        delivery: IWebhookDelivery,
+        attempt: { attemptedAt: Date; responseStatus?: number; durationMs: number; error?: string },
+        permanent: boolean = false
+    ): Promise<void> {
+        const attemptCount = delivery.attemptCount + 1;
+        const succeeded = !attempt.error;
+        const exhausted = permanent || attemptCount >= delivery.maxAttempts;
+
+        const update: any = {
+            attemptCount,
+            ...(attempt.responseStatus !== undefined && { lastResponseStatus: attempt.responseStatus }),
+            $push: { attempts: { $each: [attempt], $slice: -this.maxLoggedAttempts } }
+        };
+
+        if (succeeded) {
+            Object.assign(update, { status: 'delivered', deliveredAt: new Date(), $unset: { nextAttemptAt: 1, lastError: 1 } });
+        } else if (exhausted) {
+            Object.assign(update, { status: 'failed', failedAt: new Date(), lastError: attempt.error, $unset: { nextAttemptAt: 1 } });
+            logger.error(`Webhook delivery ${delivery._id} (${delivery.event}) failed permanently after ${attemptCount} attempts: ${attempt.error}`);
+        } else {
+            const nextAttemptAt = new Date(Date.now() + this.computeBackoff(attemptCount));
+            Object.assign(update, { status: 'retrying', nextAttemptAt, lastError: attempt.error });
+            logger.warn(`Webhook delivery ${delivery._id} (${delivery.event}) failed (attempt ${attemptCount}/${delivery.maxAttempts}), retrying at ${nextAttemptAt.toISOString()}: ${attempt.error}`);
+        }
+
+        await WebhookDelivery.updateOne({ _id: delivery._id, status: 'sending' }, update);
+    }
+
+    /**
+     * A delivery stuck in "sending" for longer than this was abandoned mid-request
+     */
+    private getStaleSendCutoff(now: Date): Date {
+        return new Date(now.getTime() - this.requestTimeoutMs * 3);
+    }
+
+    /**
+     * Exponential backoff with jitter, same shape as the audio retries
+     */
+    computeBackoff(attempt: number): number {
+        const exponential = Math.min(this.maxDelayMs, this.baseDelayMs * Math.pow(2, Math.max(0, attempt - 1)));
+        return Math.round(exponential * (0.5 + Math.random() * 0.5));
+    }
+}
+
+// Export singleton instance
+export const outboundWebhookService = new OutboundWebhookService();
@@ -0,0 +1,41 @@
+import { logger } from '../utils/logger';
+import SchedulerTaskSetting, { SchedulerTaskName } from '../models/schedulerTaskSetting';
+
+export interface SchedulerTaskSettingChanges {
+    cronPattern?: string;
+    isPaused?: boolean;
+}
+
+export class SchedulerTaskSettingService {
+
+    /**
+     * Settings saved through the admin API, applied over the environment schedules at startup
+     */
+    async getAll(): Promise<any[]> {
+        return SchedulerTaskSetting.find().lean();
+    }
+
+    async get(task: SchedulerTaskName): Promise<any | null> {
+        return SchedulerTaskSetting.findOne({ task }).lean();
+    }
+
+    async save(task: SchedulerTaskName, changes: SchedulerTaskSettingChanges): Promise<any> {
+        try {
+            const setting = await SchedulerTaskSetting.findOneAndUpdate(
+                { task },
+                changes,
+                { upsert: true, new: true, setDefaultsOnInsert: true }
+            ).lean();
+
+            logger.info(`Saved scheduler settings for ${task}`, changes);
+            return setting;
+
+        } catch (error) {
+            logger.error(`Error saving scheduler settings for ${task}:`, error);
+            throw error;
+        }
+    }
+}
+
+// Export singleton instance
+export const schedulerTaskSettingService = new SchedulerTaskSettingService();
@@ -0,0 +1,172 @@
+import crypto from 'crypto';
+import { logger } from '../utils/logger';
+import SummaryCache from '../models/summaryCache';
+import NewsSummaries from '../models/newsSummaries';
+import { SummarizationProvider } from '../providers/summarization';
+
+/**
+ * What a summary input was keyed by; stored on the NewsSummaries input so a summary arriving
+ * later by webhook can be cached under the key it was requested with
+ */
+export interface SummaryCacheRef {
+    key: string;
+    provider: string;
+    model: string;
+    maxLength: number;
+}
+
+export interface SummaryCacheInvalidation {
+    key?: string;
+    articleId?: string;
+    provider?: string;
+    all?: boolean; // Required to clear the whole cache
+}
+
+export interface SummaryCacheStats {
+    enabled: boolean;
+    ttlHours: number;
+    hits: number;
+    misses: number;
+    hitRate: number | null;
+    entries: number;
+}
+
+export class SummaryCacheService {
+    private ttlHours: number;
+    private hits: number = 0;
+    private misses: number = 0;
+
+    constructor() {
+        // 0 turns the cache off
+        this.ttlHours = parseFloat(process.env.SUMMARY_CACHE_TTL_HOURS || '24');
+    }
+
+    isEnabled(): boolean {
+        return this.ttlHours > 0;
+    }
+
+    /**
+     * Cache key for summarizing these articles, in this order, with this provider; undefined when caching is off.
+     * The input text is part of the key, so a changed word budget or re-extracted article misses the cache.
+     */
+    buildRef(articleIds: any[], inputText: string, provider: SummarizationProvider, maxLength: number): SummaryCacheRef | undefined {
+        if (!this.isEnabled() || !articleIds.length) {
+            return undefined;
+        }
+
+        const key = crypto.createHash('sha256').update(JSON.stringify({
+            articleIds: articleIds.map(id => id.toString()),
+            inputHash: crypto.createHash('sha256').update(inputText).digest('hex'),
+            provider: provider.name,
+            model: provider.model,
+            maxLength
+        })).digest('hex');
+
+        return { key, provider: provider.name, model: provider.model, maxLength };
+    }
+
+    /**
+     * Unexpired cached summary for a key. Lookup failures count as a miss rather than failing the run.
+     */
+    async lookup(ref?: SummaryCacheRef): Promise<{ summary: string; summaryTitle?: string } | null> {
+        if (!ref) {
+            return null;
+        }
+
+        try {
+            const entry = await SummaryCache.findOneAndUpdate(
+                { key: ref.key, expiresAt: { $gt: new Date() } },
+                { $inc: { hitCount: 1 }, lastHitAt: new Date() },
+                { new: true }
+            ).lean();
+
+            if (entry) {
+                this.hits++;
+                return { summary: entry.summary, summaryTitle: entry.summaryTitle };
+            }
+
+        } catch (error) {
+            logger.error(`Error looking up summary cache entry ${ref.key}:`, error);
+        }
+
+        this.misses++;
+        return null;
+    }
+
+    /**
+     * Cache a summary under the key of the input it was generated from.
+     * Inputs without a key (no batch, or caching off) are skipped.
+     */
+    async storeForInput(filter: Record<string, any>, summary: string, summaryTitle?: string): Promise<void> {
+        try {
+            const input = await NewsSummaries.findOne({ ...filter, 'cache.key': { $exists: true } })
+                .sort({ createdAt: -1 })
+                .select('cache articleIds')
+                .lean();
+
+            if (!input?.cache?.key) {
+                return;
+            }
+
+            // An entry for the key stays as first cached until it expires or is invalidated
+            await SummaryCache.updateOne(
+                { key: input.cache.key },
+                {
+                    $setOnInsert: {
+                        key: input.cache.key,
+                        articleIds: input.articleIds,
+                        provider: input.cache.provider,
+                        providerModel: input.cache.model,
+                        maxLength: input.cache.maxLength,
+                        summary,
+                        summaryTitle,
+                        expiresAt: new Date(Date.now() + this.ttlHours * 60 * 60 * 1000)
+                    }
+                },
+                { upsert: true }
+            );
+
+        } catch (error: any) {
+            // A concurrent store of the same key already cached it; anything else only costs a future hit
+            if (error?.code !== 11000) {
+                logger.error('Error storing summary cache entry:', error);
+            }
+        }
+    }
+
+    /**
+     * Delete cache entries by key, by an article they include, or by provider; clearing the whole cache takes all
+     */
+    async invalidate(criteria: SummaryCacheInvalidation): Promise<number> {
+        const filter: Record<string, any> = {};
+        if (criteria.key) filter.key = criteria.key;
+        if (criteria.articleId) filter.articleIds = criteria.articleId;
+        if (criteria.provider) filter.provider = criteria.provider;
+
+        if (!Object.keys(filter).length && !criteria.all) {
+            throw new Error('Refusing to clear the whole summary cache without all=true');
+        }
+
+        const result = await SummaryCache.deleteMany(filter);
+        logger.info(`Invalidated ${result.deletedCount} summary cache entries`, criteria);
+        return result.deletedCount;
+    }
+
+    /**
+     * Hit and miss counts since startup, plus the number of live entries
+     */
+    async getStats(): Promise<SummaryCacheStats> {
+        const lookups = this.hits + this.misses;
+        return {
+            enabled: this.isEnabled(),
+            ttlHours: this.ttlHours,
+            hits: this.hits,
+            misses: this.misses,
+            hitRate: lookups ? Math.round((this.hits / lookups) * 1000) / 1000 : null,
+            entries: await SummaryCache.countDocuments({ expiresAt: { $gt: new Date() } })
+        };
+    }
+}
+
+// Export singleton instance
+export const summaryCacheService = new SummaryCacheService();
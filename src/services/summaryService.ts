@@ -1,5 +1,4 @@
 import axios from '../utils/axiosIntercepter.js';
-import { Client } from "@gradio/client";
 import NewsArticle from '../models/newsArticles.js';
 import UserCategoryPreference from '../models/userCategoryPreference.js';
 import { logger } from '../utils/logger.js';
@@ -9,79 +8,290 @@ import BatchTracker from '../models/batchTracker.js';
 import mongoose from 'mongoose';
 import fs from 'fs';
 import aiSummarries from '../models/aiSummarries.js';
+import { createSummarizationProvider, SummarizationProvider } from '../providers/summarization/index.js';
+import { webhookServices } from './webhookServices.js';
+import { batchStateMachine } from './batchStateMachine.js';
+import { batchItemService } from './batchItemService.js';
+import { categoryService } from './categoryService.js';
+import { listeningHistoryService } from './listeningHistoryService.js';
+import { articleRankingService, ScoreBreakdown, RankingWeights } from './articleRankingService.js';
+import { articleBudgetService, BudgetPlan } from './articleBudgetService.js';
+import { summaryCacheService, SummaryCacheRef } from './summaryCacheService.js';
+import { deliveryScheduleService } from './deliveryScheduleService.js';
+import { JobRunResult } from './jobRunService.js';
+import FeedSource from '../models/feedSource.js';
 
 interface ArticleSummary {
     userId: string;
     summary: string;
     articleCount: number;
+    articleIds: string[];
     generatedAt: Date;
     batchId?: string;
+    cache?: SummaryCacheRef;
+}
+
+export interface RankedArticle {
+    article: any;
+    score: number;
+    breakdown: ScoreBreakdown;
+    delivered: boolean; // Heard by the user within the history window
+    selected: boolean;
+    wordAllowance?: number; // Body words this article may contribute to the summary input
+    titleAllowance?: number; // Title words, fewer than 20 when the budget is tight
+    droppedForBudget?: boolean;
+}
+
+export interface CategoryArticleSelection {
+    categoryId: string;
+    categoryName: string;
+    weight: number;
+    limit: number;
+    maxAgeHours: number;
+    fellBackToDelivered: boolean;
+    candidates: RankedArticle[];
+}
+
+export interface UserArticleSelection {
+    userId: string;
+    generatedAt: Date;
+    weights: RankingWeights;
+    budget: BudgetPlan;
+    categories: CategoryArticleSelection[];
+}
+
+export interface GeneratedSummaries {
+    summaries: ArticleSummary[];
+    failed: number; // Users whose summary couldn't be generated
+}
+
+export interface BatchTrackerOptions {
+    categoryIdsByUser?: Map<string, string[]>;
+    deliverAtByUser?: Map<string, Date>;
 }
 
 export class SummaryService {
     private maxArticlesCount: number;
+    private summaryMaxLength: number;
+    private summarizationProvider: SummarizationProvider;
 
     constructor() {
         this.maxArticlesCount = parseInt(process.env.MAX_ARTICLES_COUNT || '5');
+        this.summaryMaxLength = parseInt(process.env.SUMMARY_MAX_LENGTH || '700');
+        this.summarizationProvider = createSummarizationProvider();
     }
 
     /**
-     * Get articles for a specific user based on their category preferences
+     * Name of the configured summarization backend
      */
-    async getArticlesForUser(userId: string): Promise<any[]> {
+    getSummarizationProviderName(): string {
+        return this.summarizationProvider.name;
+    }
+
+    /**
+     * Rank every candidate article for a user's categories and mark which ones make the mix.
+     * Returns null when the user has no usable category preferences.
+     */
+    async buildSelectionForUser(userId: string, now: Date = new Date()): Promise<UserArticleSelection | null> {
         try {
             // Get user's category preferences
             const userPreferences = await UserCategoryPreference.findOne({ userId });
             
             if (!userPreferences || !userPreferences.preferredCategories.length) {
                 logger.warn(`No category preferences found for user: ${userId}`);
-                return [];
+                return null;
             }
 
-            // Extract category IDs from user preferences
-            const categoryIds = userPreferences.preferredCategories.map(pref => pref.categoryID);
+            // Skip categories that were deactivated since the user picked them
+            const categories = await categoryService.getActiveCategories(
+                userPreferences.preferredCategories.map(pref => pref.categoryID)
+            );
 
-            // Use aggregation to get 5 articles from each category
-            const articles = await NewsArticle.aggregate([
-                {
-                    $match: {
-                        categoryId: { $in: categoryIds }
-                    }
-                },
-                {
-                    $sort: { publishedAt: -1 }
-                },
-                {
-                    $group: {
-                        _id: '$categoryId',
-                        articles: {
-                            $push: '$$ROOT'
-                        }
-                    }
-                },
-                {
-                    $project: {
-                        _id: 1,
-                        articles: { $slice: ['$articles', 5] }
-                    }
-                },
-                {
-                    $unwind: '$articles'
-                },
-                {
-                    $replaceRoot: { newRoot: '$articles' }
+            if (!categories.length) {
+                logger.warn(`All preferred categories of user ${userId} are inactive`);
+                return null;
+            }
+
+            const weightsById = new Map(userPreferences.preferredCategories.map(pref => [pref.categoryID.toString(), pref.weight ?? 1]));
+
+            // Articles (and other coverage of the same stories) the user already heard recently
+            const recent = await listeningHistoryService.getRecentDeliveries(userId, now);
+            const deliveredArticleIds = new Set(recent.articleIds.map(id => id.toString()));
+            const deliveredStories = new Set(recent.storyClusterIds);
+
+            const ranked = await this.rankCandidates(categories, now);
+
+            const categorySelections = categories.map(category => this.selectCategoryArticles(
+                category,
+                ranked,
+                weightsById.get(category._id.toString()) ?? 1,
+                article => deliveredArticleIds.has(article._id.toString())
+                    || (!!article.storyClusterId && deliveredStories.has(article.storyClusterId))
+            ));
+
+            // Trim the picks to the summarizer's input budget, keeping every category represented
+            const budget = articleBudgetService.pack(categorySelections);
+
+            return {
+                userId,
+                generatedAt: now,
+                weights: articleRankingService.getWeights(),
+                budget,
+                categories: categorySelections
+            };
+
+        } catch (error) {
+            logger.error(`Error building article selection for user ${userId}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Rank a category's candidates for a summary shared by every user following it.
+     * No listening history applies here, so the category always gets its full MAX_ARTICLES_COUNT picks;
+     * category mode instead leaves the summary out of mixes for users who heard all of its articles.
+     */
+    async buildSelectionForCategory(category: any, now: Date = new Date()): Promise<CategoryArticleSelection> {
+        try {
+            const ranked = await this.rankCandidates([category], now);
+            const selection = this.selectCategoryArticles(category, ranked, 1, () => false);
+
+            articleBudgetService.pack([selection]);
+            return selection;
+
+        } catch (error) {
+            logger.error(`Error building article selection for category ${category._id}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Score every article within the categories' max age, keeping one article per story cluster
+     */
+    private async rankCandidates(categories: any[], now: Date): Promise<Omit<RankedArticle, 'delivered' | 'selected'>[]> {
+        // Candidates within each category's max age, at most one per story cluster
+        const candidates = await NewsArticle.aggregate([
+            {
+                $match: {
+                    $or: categories.map(category => ({
+                        categoryId: category._id,
+                        publishedAt: { $gte: articleRankingService.getMaxAgeCutoff(category.maxAgeHours, now) }
+                    }))
                 }
-            ]);
-
-            // Apply word count limitation to text fields
-            const processedArticles = articles.map(article => {
-                return {
-                    ...article,
-                    title: truncateToWordCount(article.title, 20), // Limit title to 20 words
-                    description: truncateToWordCount(article.description, 100), // Limit description to 100 words
-                    fullText: truncateToWordCount(article.fullText, 500) // Limit full text to 500 words
-                };
-            });
+            },
+            {
+                $project: { minHashSignature: 0, lshBands: 0 }
+            },
+            {
+                // Unclustered articles form a story of their own
+                $addFields: {
+                    _storyKey: { $ifNull: ['$storyClusterId', { $toString: '$_id' }] },
+                    _textLength: { $strLenCP: { $ifNull: ['$fullText', ''] } }
+                }
+            },
+            {
+                // Prefer the most complete text within a story, then the newest
+                $sort: { _storyKey: 1, _textLength: -1, publishedAt: -1 }
+            },
+            {
+                $group: {
+                    _id: '$_storyKey',
+                    article: { $first: '$$ROOT' },
+                    clusterSize: { $sum: 1 }
+                }
+            },
+            {
+                $replaceRoot: { newRoot: { $mergeObjects: ['$article', { clusterSize: '$clusterSize' }] } }
+            },
+            {
+                $project: { _storyKey: 0, _textLength: 0 }
+            }
+        ]);
+
+        const feedSourceIds = [...new Set(candidates.map(article => article.feedSourceId?.toString()).filter(Boolean))];
+        const feedSources = feedSourceIds.length
+            ? await FeedSource.find({ _id: { $in: feedSourceIds } }).select('priority').lean()
+            : [];
+        const priorityByFeed = new Map(feedSources.map(feed => [feed._id.toString(), feed.priority]));
+
+        return candidates
+            .map(article => ({
+                article,
+                ...articleRankingService.scoreArticle(article, priorityByFeed.get(article.feedSourceId?.toString()), now)
+            }))
+            .sort((a, b) => b.score - a.score);
+    }
+
+    /**
+     * Mark the best of a category's ranked candidates as selected, preferring ones the user hasn't heard
+     */
+    private selectCategoryArticles(
+        category: any,
+        ranked: Omit<RankedArticle, 'delivered' | 'selected'>[],
+        weight: number,
+        isDelivered: (article: any) => boolean
+    ): CategoryArticleSelection {
+        const categoryId = category._id.toString();
+
+        // Weighted categories get proportionally more (or fewer) of the MAX_ARTICLES_COUNT slots, never less than one
+        const limit = Math.max(1, Math.round(this.maxArticlesCount * weight));
+
+        const candidates: RankedArticle[] = ranked
+            .filter(entry => entry.article.categoryId?.toString() === categoryId)
+            .map(entry => ({ ...entry, delivered: isDelivered(entry.article), selected: false }));
+
+        // Only unheard articles; a category with nothing new falls back to its best-ranked articles
+        const fresh = candidates.filter(entry => !entry.delivered);
+        const pool = fresh.length ? fresh : candidates;
+        pool.slice(0, limit).forEach(entry => { entry.selected = true; });
+
+        return {
+            categoryId,
+            categoryName: category.name,
+            weight,
+            limit,
+            maxAgeHours: category.maxAgeHours || articleRankingService.getDefaultMaxAgeHours(),
+            fellBackToDelivered: !fresh.length && candidates.length > 0,
+            candidates
+        };
+    }
+
+    /**
+     * Selected articles with their text cut to the word allowance the budget packer gave them
+     */
+    applyWordAllowance(selections: CategoryArticleSelection[]): any[] {
+        return selections
+            .flatMap(category => category.candidates.filter(entry => entry.selected))
+            .map(({ article, wordAllowance, titleAllowance }) => ({
+                ...article,
+                title: truncateToWordCount(article.title, titleAllowance ?? 20), // Limit title to 20 words, or less on a tight budget
+                description: truncateToWordCount(article.description, Math.min(100, wordAllowance)),
+                fullText: truncateToWordCount(article.fullText, wordAllowance)
+            }));
+    }
+
+    /**
+     * The "Title: content" lines the summarizer is given
+     */
+    buildSummaryInput(articles: any[]): string {
+        return articles
+            .map(article => `${article.title}: ${article.fullText || article.description || article.title}`)
+            .join('\n');
+    }
+
+    /**
+     * Get articles for a specific user based on their category preferences
+     */
+    async getArticlesForUser(userId: string): Promise<any[]> {
+        try {
+            const selection = await this.buildSelectionForUser(userId);
+            if (!selection) {
+                return [];
+            }
+
+            const processedArticles = this.applyWordAllowance(selection.categories);
+
+            logger.info(`Selected ${processedArticles.length} articles for user ${userId} (${selection.budget.wordsUsed}/${selection.budget.wordBudget} words)`);
 
             return processedArticles;
 
@@ -104,28 +314,31 @@ export class SummaryService {
             }
 
             // Combine articles into a single summary paragraph
-            const summaryParts = articles.map(article => {
-                const content = article.fullText || article.description || article.title;
-                return `${article.title}: ${content}`;
-            });
-
-            const summary = summaryParts.join('\n');
+            const summary = this.buildSummaryInput(articles);
+            const cache = summaryCacheService.buildRef(articles.map(article => article._id), summary, this.summarizationProvider, this.summaryMaxLength);
 
-            await NewsSummaries.create({
+            const newsSummary = await NewsSummaries.create({
                 userId,
                 summary,
                 articleCount: articles.length,
+                articleIds: articles.map(article => article._id),
+                batchId,
                 generatedAt: new Date(),
                 summaryType: 'user',
                 summaryTitle: 'Daily Mix',
+                cache
             });
 
+            await listeningHistoryService.recordDeliveries(userId, articles, { newsSummaryId: newsSummary._id, batchId });
+
             return {
                 userId,
                 summary,
                 articleCount: articles.length,
+                articleIds: articles.map(article => article._id.toString()),
                 generatedAt: new Date(),
-                batchId
+                batchId,
+                cache
             };
 
         } catch (error) {
@@ -135,32 +348,41 @@ export class SummaryService {
     }
 
     /**
-     * Generate summaries for all users with category preferences
+     * Generate summaries for all users with category preferences, optionally narrowed by userFilter.
+     * A user whose generation throws is counted and skipped; stops between users once signal is aborted.
      */
-    async generateSummariesForAllUsers(batchId?: string): Promise<ArticleSummary[]> {
+    async generateSummariesForAllUsers(batchId?: string, userFilter: Record<string, any> = {}, signal?: AbortSignal): Promise<GeneratedSummaries> {
         try {
             // Get all users with category preferences
             const userPreferences = await UserCategoryPreference.find({
+                ...userFilter,
                 'preferredCategories.0': { $exists: true }
             }).lean();
 
             if (!userPreferences.length) {
                 logger.info('No users with category preferences found');
-                return [];
+                return { summaries: [], failed: 0 };
             }
 
             const summaries: ArticleSummary[] = [];
+            let failed = 0;
 
             // Generate summary for each user
             for (const userPref of userPreferences) {
-                const summary = await this.generateSummaryForUser(userPref.userId.toString(), batchId);
-                if (summary) {
-                    summaries.push(summary);
+                signal?.throwIfAborted();
+                try {
+                    const summary = await this.generateSummaryForUser(userPref.userId.toString(), batchId);
+                    if (summary) {
+                        summaries.push(summary);
+                    }
+                } catch (error) {
+                    failed++;
+                    logger.error(`Skipping user ${userPref.userId} after summary generation failed:`, error);
                 }
             }
 
-            logger.info(`Generated ${summaries.length} summaries for users`);
-            return summaries;
+            logger.info(`Generated ${summaries.length} summaries for users${failed ? `, ${failed} failed` : ''}`);
+            return { summaries, failed };
 
         } catch (error) {
             logger.error('Error generating summaries for all users:', error);
@@ -169,25 +391,34 @@ export class SummaryService {
     }
 
     /**
-     * Send summary to external service using Hugging Face Gradio client
+     * Send summary to the configured summarization provider
      */
     public async sendSummaryToService(summary: ArticleSummary): Promise<string> {
         try {
-            // Connect to the Gradio client
-            const client = await Client.connect("joeljose555/aiScripts", {
-                hf_token: process.env.HF_TOKEN as `hf_${string}`
-            });
-            
-            // Call the summarise_interface with the summary text
-            const result = await client.predict("/run_summarization_gpu", {
+            // The same articles went through the same model recently, so reuse that summary instead of calling the provider
+            const cached = await summaryCacheService.lookup(summary.cache);
+            if (cached) {
+                await webhookServices.saveSummary(cached.summary, summary.userId, 'user', cached.summaryTitle || 'Daily Mix', summary.batchId);
+                logger.info(`Summary cache hit for user ${summary.userId} in batch ${summary.batchId}, skipped ${this.summarizationProvider.name} provider`);
+                return cached.summary;
+            }
+
+            const result = await this.summarizationProvider.summarize({
                 text: summary.summary,
-                user_id: summary.userId,
-                batch_id: summary.batchId,
-                max_length: 700, // Adjust this value based on your needs
+                userId: summary.userId,
+                batchId: summary.batchId,
+                maxLength: this.summaryMaxLength,
             });
 
-            logger.info(`Summary processed for user ${summary.userId} in batch ${summary.batchId}. Result: ${result.data}`);
-            return result.data as string;
+            // Providers that answer inline skip the webhook round-trip, so save through the same path it would take
+            if (result.delivery === 'inline') {
+                await webhookServices.saveSummary(result.summary, summary.userId, 'user', result.summaryTitle || 'Daily Mix', summary.batchId);
+                logger.info(`Summary generated by ${this.summarizationProvider.name} provider for user ${summary.userId} in batch ${summary.batchId}`);
+                return result.summary;
+            }
+
+            logger.info(`Summary processed for user ${summary.userId} in batch ${summary.batchId}. Result: ${result.raw}`);
+            return result.raw as string;
         } catch (error) {
             logger.error(`Error processing summary for user ${summary.userId} in batch ${summary.batchId}:`, error);
             throw error;
@@ -195,18 +426,26 @@ export class SummaryService {
     }
 
     /**
-     * Send all summaries to external service sequentially with delays
+     * Send all summaries to external service sequentially with delays, stopping once signal is aborted.
+     * A summary that fails to send doesn't stop the rest; returns how many failed.
      */
-    async sendSummariesToService(summaries: ArticleSummary[]): Promise<void> {
+    async sendSummariesToService(summaries: ArticleSummary[], signal?: AbortSignal): Promise<number> {
         try {
             logger.info(`Starting to send ${summaries.length} summaries sequentially with 2-second delays`);
+            let failed = 0;
 
             for (let i = 0; i < summaries.length; i++) {
+                signal?.throwIfAborted();
                 const summary = summaries[i];
                 console.log(summary);
                 // Send the summary and wait for it to complete
                 fs.writeFileSync('summary.json', JSON.stringify(summary, null, 2));
-                await this.sendSummaryToService(summary);
+                try {
+                    await this.sendSummaryToService(summary);
+                } catch {
+                    // sendSummaryToService already logged the failure
+                    failed++;
+                }
                 
                 // Wait 2 seconds before sending the next one (except for the last one)
                 if (i < summaries.length - 1) {
@@ -214,7 +453,8 @@ export class SummaryService {
                 }
             }
 
-            logger.info(`All ${summaries.length} summary requests have been sent`);
+            logger.info(`${summaries.length - failed}/${summaries.length} summary requests have been sent`);
+            return failed;
 
         } catch (error) {
             logger.error('Error in sequential summary sending process:', error);
@@ -230,30 +470,41 @@ export class SummaryService {
     }
 
     /**
-     * Main scheduled task: Generate and send summaries
+     * Main scheduled task: Generate and send summaries.
+     * With deliverAtByUser it runs for just those users, whose mixes are due by the given slots.
+     * An aborted signal (the scheduler lost its lease) stops the run between users.
      */
-    async executeScheduledSummaryTask(): Promise<void> {
+    async executeScheduledSummaryTask(deliverAtByUser?: Map<string, Date>, signal?: AbortSignal): Promise<JobRunResult> {
         try {
             logger.info('Starting scheduled summary generation task');
 
             // Generate unique batch ID
             const batchId = this.generateBatchId();
+            const userFilter = await deliveryScheduleService.getRunUserFilter(deliverAtByUser);
             
             // Generate summaries for all users
-            const summaries = await this.generateSummariesForAllUsers(batchId);
+            const { summaries, failed: generationFailures } = await this.generateSummariesForAllUsers(batchId, userFilter, signal);
+            const users = await UserCategoryPreference.countDocuments({ ...userFilter, 'preferredCategories.0': { $exists: true } });
 
             if (!summaries.length) {
                 logger.info('No summaries generated, skipping external service call');
-                return;
+                return { users, summaries: 0, errors: generationFailures, details: { generationFailures, sendFailures: 0 } };
             }
 
             // Create batch tracker
-            await this.createBatchTracker(batchId, summaries);
+            await this.createBatchTracker(batchId, summaries.map(s => s.userId), { deliverAtByUser });
 
             // Send summaries to external service
-            await this.sendSummariesToService(summaries);
+            const sendFailures = await this.sendSummariesToService(summaries, signal);
 
-            logger.info(`Completed scheduled summary generation task. Processed ${summaries.length} summaries for batch: ${batchId}`);
+            logger.info(`Completed scheduled summary generation task. Sent ${summaries.length - sendFailures}/${summaries.length} summaries for batch: ${batchId}`);
+            return {
+                batchId,
+                users,
+                summaries: summaries.length - sendFailures,
+                errors: generationFailures + sendFailures,
+                details: { generationFailures, sendFailures }
+            };
 
         } catch (error) {
             logger.error('Error in scheduled summary task:', error);
@@ -264,28 +515,35 @@ export class SummaryService {
     /**
      * Generate unique batch ID
      */
-    private generateBatchId(): string {
+    generateBatchId(): string {
         return `batch_${Date.now()}_${new mongoose.Types.ObjectId().toString()}`;
     }
 
     /**
-     * Create batch tracker record
+     * Create batch tracker record with one item per user expected to receive a summary
      */
-    private async createBatchTracker(batchId: string, summaries: ArticleSummary[]): Promise<void> {
+    async createBatchTracker(batchId: string, userIds: string[], options: BatchTrackerOptions = {}): Promise<void> {
         try {
             const timeoutAt = new Date(Date.now() + 30 * 60 * 1000); // 30 minutes from now
-            const userIds = summaries.map(s => s.userId);
 
             await BatchTracker.create({
                 batchId,
-                expectedCount: summaries.length,
+                expectedCount: userIds.length,
                 receivedCount: 0,
                 status: 'pending',
                 timeoutAt,
                 userIds
             });
 
-            logger.info(`Created batch tracker for batch: ${batchId} with ${summaries.length} expected summaries`);
+            await batchItemService.createItems(batchId, userIds, options);
+            await batchStateMachine.recordCreation(batchId, 'scheduler', `Created with ${userIds.length} expected summaries`, { userIds });
+
+            // Scheduled deliveries are settled once their batch exists, so a failure after this point isn't generated twice
+            if (options.deliverAtByUser) {
+                await deliveryScheduleService.completeDeliveries(userIds);
+            }
+
+            logger.info(`Created batch tracker for batch: ${batchId} with ${userIds.length} expected summaries`);
 
         } catch (error) {
             logger.error(`Error creating batch tracker for batch ${batchId}:`, error);
@@ -0,0 +1,132 @@
+import { logger } from '../utils/logger';
+import { Cursor, cursorFilter, encodeCursor } from '../utils/cursor';
+import userMixes from '../models/userMixes';
+import AiSummaries from '../models/aiSummarries';
+
+export interface ListUserMixesOptions {
+    limit: number;
+    cursor?: Cursor;
+    mixTypes?: string[];
+    from?: Date;
+    to?: Date;
+}
+
+export interface UserMixView {
+    id: string;
+    userId: string;
+    mixName: string;
+    mixIcon?: string;
+    mixType: string;
+    audioUrl: string;
+    audioGeneratedAt: Date; // The mix is written when the TTS callback delivers the audio
+    createdAt: Date;
+    summary: {
+        id: string;
+        title: string;
+        text: string;
+        type: string;
+        batchId?: string;
+        createdAt: Date;
+    } | null;
+}
+
+export class UserMixService {
+
+    /**
+     * A user's mixes newest first, with the summary each one was generated from
+     */
+    async listUserMixes(userId: string, options: ListUserMixesOptions): Promise<{ mixes: UserMixView[]; nextCursor: string | null }> {
+        try {
+            const filter: any = { userId };
+
+            if (options.mixTypes?.length) {
+                filter.mixType = { $in: options.mixTypes };
+            }
+            if (options.from || options.to) {
+                filter.createdAt = {
+                    ...(options.from && { $gte: options.from }),
+                    ...(options.to && { $lte: options.to })
+                };
+            }
+            if (options.cursor) {
+                Object.assign(filter, cursorFilter(options.cursor));
+            }
+
+            // Fetch one extra to know whether another page exists
+            const mixes = await userMixes.find(filter)
+                .sort({ createdAt: -1, _id: -1 })
+                .limit(options.limit + 1)
+                .lean();
+
+            const hasMore = mixes.length > options.limit;
+            const page = hasMore ? mixes.slice(0, options.limit) : mixes;
+
+            return {
+                mixes: await this.attachSummaries(page),
+                nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null
+            };
+
+        } catch (error) {
+            logger.error(`Error listing mixes for user ${userId}:`, error);
+            throw error;
+        }
+    }
+
+    async getMix(mixId: string): Promise<UserMixView | null> {
+        try {
+            const mix = await userMixes.findById(mixId).lean();
+            if (!mix) {
+                return null;
+            }
+
+            const [view] = await this.attachSummaries([mix]);
+            return view;
+
+        } catch (error) {
+            logger.error(`Error getting mix ${mixId}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Join each mix with its AiSummaries record in one query. Mixes saved before summaryId was
+     * recorded come back with summary: null.
+     */
+    private async attachSummaries(mixes: any[]): Promise<UserMixView[]> {
+        const summaryIds = mixes.map(mix => mix.summaryId).filter(Boolean);
+        const summaries = summaryIds.length
+            ? await AiSummaries.find({ _id: { $in: summaryIds } })
+                .select('summary summaryTitle summaryType batchId createdAt')
+                .lean()
+            : [];
+        const summariesById = new Map(summaries.map(summary => [summary._id.toString(), summary]));
+
+        return mixes.map(mix => {
+            const summary = mix.summaryId ? summariesById.get(mix.summaryId.toString()) : undefined;
+
+            return {
+                id: mix._id.toString(),
+                userId: mix.userId,
+                mixName: mix.mixName,
+                mixIcon: mix.mixIcon,
+                mixType: mix.mixType,
+                audioUrl: mix.audioUrl,
+                audioGeneratedAt: mix.createdAt,
+                createdAt: mix.createdAt,
+                summary: summary
+                    ? {
+                        id: summary._id.toString(),
+                        title: summary.summaryTitle,
+                        text: summary.summary,
+                        type: summary.summaryType,
+                        batchId: summary.batchId,
+                        createdAt: summary.createdAt
+                    }
+                    : null
+            };
+        });
+    }
+}
+
+// Export singleton instance
+export const userMixService = new UserMixService();
@@ -0,0 +1,215 @@
+import mongoose from 'mongoose';
+import { logger } from '../utils/logger';
+import Category from '../models/categories';
+import UserCategoryPreference from '../models/userCategoryPreference';
+
+export interface CategorySelection {
+    categoryId: string;
+    weight?: number;
+}
+
+export interface InvalidCategory {
+    index: number;
+    categoryId: string;
+    message: string;
+}
+
+export interface PreferredCategoryView {
+    categoryId: string;
+    categoryName: string;
+    weight: number;
+}
+
+export interface UserPreferencesView {
+    userId: string;
+    preferredCategories: PreferredCategoryView[];
+    updatedAt?: Date;
+}
+
+export class UserPreferenceService {
+
+    /**
+     * Categories in a request that don't exist or are deactivated, with their position in the request
+     */
+    async findInvalidCategories(selections: CategorySelection[]): Promise<InvalidCategory[]> {
+        const ids = [...new Set(selections.map(selection => selection.categoryId))];
+        const categories = await Category.find({ _id: { $in: ids } }).select('isActive').lean();
+        const byId = new Map(categories.map(category => [category._id.toString(), category]));
+
+        const invalid: InvalidCategory[] = [];
+        selections.forEach((selection, index) => {
+            const category = byId.get(selection.categoryId);
+            if (!category) {
+                invalid.push({ index, categoryId: selection.categoryId, message: 'Category not found' });
+            } else if (category.isActive === false) {
+                invalid.push({ index, categoryId: selection.categoryId, message: 'Category is not active' });
+            }
+        });
+
+        return invalid;
+    }
+
+    /**
+     * A user's preferred categories. Names are joined from Category on read, so a rename made
+     * anywhere is reflected even if the stored copy wasn't synced; the read never writes.
+     */
+    async getPreferences(userId: string): Promise<UserPreferencesView | null> {
+        try {
+            const preferences = await UserCategoryPreference.findOne({ userId }).lean();
+            if (!preferences) {
+                return null;
+            }
+
+            const categoryIds = preferences.preferredCategories.map(pref => pref.categoryID);
+            const categories = await Category.find({ _id: { $in: categoryIds } }).select('name').lean();
+            const namesById = new Map(categories.map(category => [category._id.toString(), category.name]));
+
+            return this.toView({
+                ...preferences,
+                preferredCategories: preferences.preferredCategories.map(pref => ({
+                    ...pref,
+                    categoryName: namesById.get(pref.categoryID.toString()) ?? pref.categoryName
+                }))
+            });
+
+        } catch (error) {
+            logger.error(`Error getting category preferences for user ${userId}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Replace the whole preference list. Callers validate categories with findInvalidCategories first.
+     */
+    async replacePreferences(userId: string, selections: CategorySelection[]): Promise<UserPreferencesView> {
+        try {
+            const preferredCategories = await this.buildEntries(this.dedupe(selections));
+
+            const preferences = await UserCategoryPreference.findOneAndUpdate(
+                { userId },
+                { preferredCategories },
+                { upsert: true, new: true, runValidators: true }
+            ).lean();
+
+            logger.info(`Replaced category preferences for user ${userId} (${preferredCategories.length} categories)`);
+            return this.toView(preferences);
+
+        } catch (error) {
+            logger.error(`Error replacing category preferences for user ${userId}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Add categories to a user's list; categories already in the list get their weight updated
+     */
+    async addCategories(userId: string, selections: CategorySelection[]): Promise<UserPreferencesView> {
+        try {
+            const existing = await UserCategoryPreference.findOne({ userId }).lean();
+            const current: CategorySelection[] = (existing?.preferredCategories || []).map(pref => ({
+                categoryId: pref.categoryID.toString(),
+                weight: pref.weight
+            }));
+
+            // Later entries win, so the request overrides weights already stored
+            return this.replacePreferences(userId, [...current, ...selections]);
+
+        } catch (error) {
+            logger.error(`Error adding category preferences for user ${userId}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Drop one category from a user's list. Returns null when the user has no preferences.
+     */
+    async removeCategory(userId: string, categoryId: string): Promise<{ preferences: UserPreferencesView; removed: boolean } | null> {
+        try {
+            const result = await UserCategoryPreference.findOneAndUpdate(
+                { userId },
+                { $pull: { preferredCategories: { categoryID: new mongoose.Types.ObjectId(categoryId) } } },
+                { new: false }
+            ).lean();
+
+            if (!result) {
+                return null;
+            }
+
+            const removed = result.preferredCategories.some(pref => pref.categoryID.toString() === categoryId);
+            const preferences = await UserCategoryPreference.findOne({ userId }).lean();
+
+            return { preferences: this.toView(preferences), removed };
+
+        } catch (error) {
+            logger.error(`Error removing category ${categoryId} from preferences of user ${userId}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Remove all of a user's preferences
+     */
+    async deletePreferences(userId: string): Promise<boolean> {
+        const result = await UserCategoryPreference.deleteOne({ userId });
+        return result.deletedCount > 0;
+    }
+
+    /**
+     * Copy a category's new name into every preference that references it
+     */
+    async syncCategoryName(categoryId: string, name: string): Promise<number> {
+        const result = await UserCategoryPreference.updateMany(
+            { 'preferredCategories.categoryID': new mongoose.Types.ObjectId(categoryId) },
+            { $set: { 'preferredCategories.$[pref].categoryName': name } },
+            { arrayFilters: [{ 'pref.categoryID': new mongoose.Types.ObjectId(categoryId) }] }
+        );
+
+        if (result.modifiedCount > 0) {
+            logger.info(`Synced category name "${name}" into ${result.modifiedCount} user preferences`);
+        }
+        return result.modifiedCount;
+    }
+
+    /**
+     * Keep the last occurrence of each category so a request can't list one twice
+     */
+    private dedupe(selections: CategorySelection[]): CategorySelection[] {
+        const byId = new Map<string, CategorySelection>();
+        for (const selection of selections) {
+            byId.delete(selection.categoryId);
+            byId.set(selection.categoryId, selection);
+        }
+        return [...byId.values()];
+    }
+
+    /**
+     * Stored entries with categoryName taken from Category rather than from the client
+     */
+    private async buildEntries(selections: CategorySelection[]): Promise<any[]> {
+        const categories = await Category.find({ _id: { $in: selections.map(selection => selection.categoryId) } }).select('name').lean();
+        const namesById = new Map(categories.map(category => [category._id.toString(), category.name]));
+
+        return selections
+            .filter(selection => namesById.has(selection.categoryId))
+            .map(selection => ({
+                categoryID: new mongoose.Types.ObjectId(selection.categoryId),
+                categoryName: namesById.get(selection.categoryId),
+                weight: selection.weight ?? 1
+            }));
+    }
+
+    private toView(preferences: any): UserPreferencesView {
+        return {
+            userId: preferences.userId,
+            preferredCategories: preferences.preferredCategories.map((pref: any) => ({
+                categoryId: pref.categoryID.toString(),
+                categoryName: pref.categoryName,
+                weight: pref.weight ?? 1
+            })),
+            updatedAt: preferences.updatedAt
+        };
+    }
+}
+
+// Export singleton instance
+export const userPreferenceService = new UserPreferenceService();
@@ -3,15 +3,22 @@ import { logger } from '../utils/logger';
 import BatchTracker from '../models/batchTracker';
 import { audioGenerationService } from './audioGenerationService';
 import userMixes from '../models/userMixes';
+import { audioRetryService } from './audioRetryService';
+import { batchStateMachine } from './batchStateMachine';
+import { batchItemService } from './batchItemService';
+import { outboundWebhookService } from './outboundWebhookService';
+import { listeningHistoryService } from './listeningHistoryService';
+import { summaryCacheService } from './summaryCacheService';
+import { deliveryScheduleService } from './deliveryScheduleService';
+import { getLocalTime } from '../utils/timezone';
 
 export class WebhookServices {
     
     /**
-     * Determine mix name and type based on current time of day
+     * Determine mix name and type from the time of day on the user's own clock
      */
-    private getMixInfoByTimeOfDay(): { mixName: string; mixType: string } {
-        const now = new Date();
-        const hours = now.getHours(); // 0-23
+    private getMixInfoByTimeOfDay(at: Date, timezone: string): { mixName: string; mixType: string } {
+        const hours = getLocalTime(at, timezone).hour; // 0-23
 
         if (hours >= 5 && hours < 12) {
             return {
@@ -38,17 +45,50 @@ export class WebhookServices {
 
     async saveSummary(summary: string, userId: string, summaryType: string, summaryTitle: string, batchId?: string) {
         try {
-            const newSummary = await AiSummaries.create({
-                summary,
-                userId,
-                summaryType,
-                summaryTitle,
-                batchId
-            });
+            // In category summary mode the summarizer answers per category, with the category id as userId
+            if (batchId) {
+                // Imported lazily: categorySummaryService depends on this service
+                const { categorySummaryService } = await import('./categorySummaryService');
+                if (summaryType === 'category' || await categorySummaryService.isCategoryInBatch(batchId, userId)) {
+                    return categorySummaryService.saveCategorySummary(summary, userId, batchId);
+                }
+            }
+
+            // A retried delivery for the same user and batch returns the original summary without side effects
+            if (batchId) {
+                const existingSummary = await AiSummaries.findOne({ batchId, userId, summaryType: 'user' });
+                if (existingSummary) {
+                    logger.info(`Summary for user ${userId} in batch ${batchId} already saved (${existingSummary._id}), ignoring duplicate delivery`);
+                    return existingSummary;
+                }
+            }
+
+            const articleIds = batchId ? await listeningHistoryService.getBatchArticleIds(userId, batchId) : [];
+
+            let newSummary;
+            try {
+                newSummary = await AiSummaries.create({
+                    summary,
+                    userId,
+                    summaryType,
+                    summaryTitle,
+                    batchId,
+                    articleIds
+                });
+            } catch (error: any) {
+                // Lost a race with a concurrent duplicate delivery
+                if (error?.code === 11000 && batchId) {
+                    return AiSummaries.findOne({ batchId, userId, summaryType: 'user' });
+                }
+                throw error;
+            }
 
-            // If batchId is provided, check batch completion
+            // If batchId is provided, link the summary to the user's batch item and check batch completion
             if (batchId) {
-                await this.checkBatchCompletion(batchId);
+                await summaryCacheService.storeForInput({ userId, batchId, summaryType: 'user' }, summary, summaryTitle);
+                await listeningHistoryService.linkAiSummary(userId, batchId, newSummary._id);
+                await batchItemService.markSummarized(batchId, userId, newSummary._id.toString());
+                await this.checkBatchCompletion(batchId, newSummary);
             }
 
             return newSummary;
@@ -61,12 +101,15 @@ export class WebhookServices {
     /**
      * Check if batch is complete and trigger audio generation if needed
      */
-    private async checkBatchCompletion(batchId: string): Promise<void> {
+    private async checkBatchCompletion(batchId: string, newSummary?: any): Promise<void> {
         try {
-            // Update batch tracker received count
+            const counts = await batchItemService.getCounts(batchId);
+
+            // Received count mirrors the per-user items, so it can't drift past expectedCount.
+            // Batches created before items existed have none and keep counting arrivals.
             const batchTracker = await BatchTracker.findOneAndUpdate(
                 { batchId },
-                { $inc: { receivedCount: 1 } },
+                counts.total > 0 ? { receivedCount: counts.withSummary } : { $inc: { receivedCount: newSummary ? 1 : 0 } },
                 { new: true }
             );
 
@@ -79,12 +122,6 @@ export class WebhookServices {
             
             logger.info(`Batch ${batchId}: ${batchTracker.receivedCount}/${batchTracker.expectedCount} received (${completionPercentage.toFixed(1)}%)`);
 
-            // Check how many summaries already have audio generated
-            const summariesWithAudio = await AiSummaries.countDocuments({ 
-                batchId, 
-                isAudioGenerated: true 
-            });
-
             // Check for 50% completion (partial completion)
             if (completionPercentage >= 50 && batchTracker.status === 'pending') {
                 await this.handlePartialCompletion(batchId, batchTracker);
@@ -96,8 +133,13 @@ export class WebhookServices {
                 await this.handleFullCompletion(batchId, batchTracker);
             }
 
-            // Check if all summaries have audio (even if batch isn't 100% complete)
-            if (summariesWithAudio >= batchTracker.receivedCount && batchTracker.receivedCount > 0) {
+            // Audio was already requested for the batch before this summary arrived, so request it on its own
+            if (newSummary && batchTracker.status === 'audio_requested') {
+                await audioGenerationService.requestLateSummaryAudio(newSummary, batchId);
+            }
+
+            // Check if every summarized user has audio (even if batch isn't 100% complete)
+            if (counts.withSummary > 0 && counts.audio_ready >= counts.withSummary) {
                 await this.checkBatchAudioCompletion(batchId);
             }
 
@@ -113,15 +155,13 @@ export class WebhookServices {
         try {
             logger.info(`Batch ${batchId} reached 50% completion, triggering partial audio generation`);
 
-            // Use atomic update to prevent race conditions
-            const updatedBatch = await BatchTracker.findOneAndUpdate(
-                { batchId, status: 'pending' },
-                { 
-                    status: 'partial_complete',
-                    partialCompletedAt: new Date()
-                },
-                { new: true }
-            );
+            // Atomic transition prevents race conditions
+            const updatedBatch = await batchStateMachine.transition(batchId, 'partial_complete', {
+                actor: 'webhook',
+                reason: 'Received 50% of expected summaries',
+                from: ['pending'],
+                metadata: { receivedCount: batchTracker.receivedCount, expectedCount: batchTracker.expectedCount }
+            });
 
             if (!updatedBatch) {
                 logger.info(`Batch ${batchId} was already updated by another process, skipping partial completion`);
@@ -132,13 +172,10 @@ export class WebhookServices {
             await audioGenerationService.triggerAudioGeneration(batchId);
 
             // Update status to audio_requested
-            await BatchTracker.findOneAndUpdate(
-                { batchId },
-                { 
-                    status: 'audio_requested',
-                    audioRequestedAt: new Date()
-                }
-            );
+            await batchStateMachine.transition(batchId, 'audio_requested', {
+                actor: 'webhook',
+                reason: 'Audio generation triggered at partial completion'
+            });
 
         } catch (error) {
             logger.error(`Error handling partial completion for batch ${batchId}:`, error);
@@ -155,25 +192,20 @@ export class WebhookServices {
             // If audio was already requested for partial completion, don't trigger again
             if (batchTracker.status === 'partial_complete') {
                 // Just update to complete status
-                await BatchTracker.findOneAndUpdate(
-                    { batchId, status: 'partial_complete' },
-                    { 
-                        status: 'complete',
-                        completedAt: new Date()
-                    }
-                );
+                await batchStateMachine.transition(batchId, 'complete', {
+                    actor: 'webhook',
+                    reason: 'All expected summaries received',
+                    from: ['partial_complete']
+                });
                 logger.info(`Audio already requested for batch ${batchId} at 50% completion, batch now fully complete`);
             } else {
                 // This is full completion without partial trigger, so trigger audio generation
-                // Use atomic update to prevent race conditions
-                const updatedBatch = await BatchTracker.findOneAndUpdate(
-                    { batchId, status: 'pending' },
-                    { 
-                        status: 'complete',
-                        completedAt: new Date()
-                    },
-                    { new: true }
-                );
+                // Atomic transition prevents race conditions
+                const updatedBatch = await batchStateMachine.transition(batchId, 'complete', {
+                    actor: 'webhook',
+                    reason: 'All expected summaries received',
+                    from: ['pending']
+                });
 
                 if (!updatedBatch) {
                     logger.info(`Batch ${batchId} was already updated by another process, skipping full completion`);
@@ -183,13 +215,10 @@ export class WebhookServices {
                 await audioGenerationService.triggerAudioGeneration(batchId);
 
                 // Update status to audio_requested
-                await BatchTracker.findOneAndUpdate(
-                    { batchId },
-                    { 
-                        status: 'audio_requested',
-                        audioRequestedAt: new Date()
-                    }
-                );
+                await batchStateMachine.transition(batchId, 'audio_requested', {
+                    actor: 'webhook',
+                    reason: 'Audio generation triggered at full completion'
+                });
             }
 
         } catch (error) {
@@ -219,17 +248,47 @@ export class WebhookServices {
                 throw new Error(`Summary not found: ${summaryId} for user ${userId}`);
             }
 
-            // Get mix info based on current time
-            const { mixName, mixType } = this.getMixInfoByTimeOfDay();
+            await audioRetryService.recordSuccess(summaryId);
+            await batchItemService.markAudioReady(summaryId);
+            await listeningHistoryService.confirmDeliveries({ aiSummaryId: summaryId });
+
+            // Name the mix for the slot it was generated for, or for now, in the user's timezone
+            const [timezone, deliverAt] = await Promise.all([
+                deliveryScheduleService.getTimezone(userId),
+                batchItemService.getDeliverAt(summaryId)
+            ]);
+            const { mixName, mixType } = this.getMixInfoByTimeOfDay(deliverAt || new Date(), timezone);
             
-            // Save the audio URL to userMixes
-            const audioMix = await userMixes.create({
-                audioUrl,
-                userId,
-                mixName,
-                mixIcon: 'https://www.google.com/images/branding/googlelogo/1x/googlelogo_color_272x92dp.png',
-                mixType
-            });
+            // Save the audio URL to userMixes, once per summary however often the webhook is retried
+            const mixResult = await userMixes.findOneAndUpdate(
+                { summaryId: updatedSummary._id },
+                {
+                    $setOnInsert: {
+                        audioUrl,
+                        userId,
+                        mixName,
+                        mixIcon: 'https://www.google.com/images/branding/googlelogo/1x/googlelogo_color_272x92dp.png',
+                        mixType,
+                        summaryId: updatedSummary._id
+                    }
+                },
+                { upsert: true, new: true, includeResultMetadata: true }
+            );
+            const audioMix = mixResult.value;
+
+            // Let client apps know about the new mix; a retried webhook finds the existing mix and stays quiet
+            if (audioMix && !mixResult.lastErrorObject?.updatedExisting) {
+                await outboundWebhookService.publish('mix.ready', {
+                    mixId: audioMix._id.toString(),
+                    userId,
+                    summaryId,
+                    batchId,
+                    audioUrl,
+                    mixName: audioMix.mixName,
+                    mixType: audioMix.mixType,
+                    summaryTitle: updatedSummary.summaryTitle
+                });
+            }
 
             // If batchId is provided, check if all summaries in the batch have audio generated
             if (batchId) {
@@ -246,36 +305,29 @@ export class WebhookServices {
     }
 
     /**
-     * Check if all summaries in a batch have audio generated and update batch status accordingly
+     * Check if every user in a batch has audio generated and update batch status accordingly
      */
-    private async checkBatchAudioCompletion(batchId: string): Promise<void> {
+    async checkBatchAudioCompletion(batchId: string): Promise<void> {
         try {
-            // Get batch info
-            const batch = await BatchTracker.findOne({ batchId });
-            if (!batch) {
-                logger.warn(`Batch not found: ${batchId}`);
+            const counts = await batchItemService.getCounts(batchId);
+            if (!counts.total) {
+                logger.warn(`No batch items found for batch: ${batchId}`);
                 return;
             }
 
-            // Count total summaries and summaries with audio generated
-            const totalSummaries = await AiSummaries.countDocuments({ batchId });
-            const summariesWithAudio = await AiSummaries.countDocuments({ 
-                batchId, 
-                isAudioGenerated: true 
-            });
+            // Users still waiting on a summary or on audio; failed users no longer hold the batch open
+            const outstanding = counts.awaiting_summary + counts.summarized + counts.audio_requested;
 
-            logger.info(`Batch ${batchId} audio progress: ${summariesWithAudio}/${totalSummaries} summaries have audio generated`);
+            logger.info(`Batch ${batchId} audio progress: ${counts.audio_ready}/${counts.total} users have audio, ${outstanding} outstanding, ${counts.failed} failed`);
 
-            // If all summaries have audio generated, update batch status
-            if (summariesWithAudio >= totalSummaries && totalSummaries > 0) {
-                await BatchTracker.findOneAndUpdate(
-                    { batchId, status: { $ne: 'audio_complete' } },
-                    { 
-                        status: 'audio_complete',
-                        audioCompletedAt: new Date()
-                    }
-                );
-                logger.info(`All summaries in batch ${batchId} have audio generated, marked batch as audio_complete`);
+            if (counts.audio_ready > 0 && outstanding === 0) {
+                const updatedBatch = await batchStateMachine.transition(batchId, 'audio_complete', {
+                    actor: 'webhook',
+                    reason: `${counts.audio_ready}/${counts.total} users have audio, ${counts.failed} failed`
+                });
+                if (updatedBatch) {
+                    logger.info(`All users in batch ${batchId} have audio generated or failed, marked batch as audio_complete`);
+                }
             }
 
         } catch (error) {
@@ -292,8 +344,8 @@ export class WebhookServices {
         try {
             logger.info(`Audio generation successful for batch ${batchId}, saving audio URL`);
 
-            // Get mix info based on current time
-            const { mixName, mixType } = this.getMixInfoByTimeOfDay();
+            // Get mix info based on current time in the user's timezone
+            const { mixName, mixType } = this.getMixInfoByTimeOfDay(new Date(), await deliveryScheduleService.getTimezone(userId));
             
             // Save the audio URL
             const audioMix = await userMixes.create({
@@ -303,16 +355,14 @@ export class WebhookServices {
                 mixIcon: 'https://www.google.com/images/branding/googlelogo/1x/googlelogo_color_272x92dp.png',
                 mixType
             });
+            await listeningHistoryService.confirmDeliveries({ userId, batchId });
 
             // Update batch tracker status to indicate audio was successfully generated and saved
-            await BatchTracker.findOneAndUpdate(
-                { batchId },
-                { 
-                    status: 'audio_complete',
-                    audioCompletedAt: new Date(),
-                    audioUrl: audioUrl
-                }
-            );
+            await batchStateMachine.transition(batchId, 'audio_complete', {
+                actor: 'webhook',
+                reason: 'Batch-level audio delivered',
+                update: { audioUrl }
+            });
 
             logger.info(`Audio generation completed successfully for batch ${batchId}`);
             return audioMix;
@@ -327,21 +377,34 @@ export class WebhookServices {
      * Handle failed audio generation
      * Called by external service when audio generation fails permanently
      */
-    async handleAudioGenerationFailure(batchId: string, errorMessage: string, userId: string) {
+    async handleAudioGenerationFailure(batchId: string, errorMessage: string, userId: string, summaryId?: string) {
         try {
             logger.error(`Audio generation failed permanently for batch ${batchId}: ${errorMessage}`);
 
+            // Mark the individual summary so it isn't picked up for audio again
+            if (summaryId) {
+                await AiSummaries.findOneAndUpdate(
+                    { _id: summaryId, userId },
+                    {
+                        audioFailed: true,
+                        audioFailureReason: errorMessage
+                    }
+                );
+                await audioRetryService.recordPermanentFailure(summaryId, errorMessage);
+                await batchItemService.markAudioFailed(summaryId, errorMessage);
+            }
+
             // Update batch tracker status to indicate audio generation failed
-            await BatchTracker.findOneAndUpdate(
-                { batchId },
-                { 
-                    status: 'audio_failed',
-                    audioFailedAt: new Date(),
-                    failureReason: errorMessage
-                }
-            );
+            const updatedBatch = await batchStateMachine.transition(batchId, 'audio_failed', {
+                actor: 'webhook',
+                reason: errorMessage,
+                update: { failureReason: errorMessage },
+                metadata: { userId, summaryId }
+            });
 
-            logger.info(`Batch ${batchId} marked as audio_failed in database`);
+            if (updatedBatch) {
+                logger.info(`Batch ${batchId} marked as audio_failed in database`);
+            }
 
         } catch (error) {
             logger.error(`Error handling audio generation failure for batch ${batchId}:`, error);
@@ -0,0 +1,38 @@
+import mongoose from 'mongoose';
+
+export interface Cursor {
+    createdAt: Date;
+    id: string;
+}
+
+/**
+ * Opaque cursor pointing just past a document in a newest-first list sorted by createdAt then _id
+ */
+export function encodeCursor(doc: { createdAt: Date; _id: any }): string {
+    return Buffer.from(`${new Date(doc.createdAt).toISOString()}|${doc._id.toString()}`).toString('base64url');
+}
+
+/**
+ * Returns null for anything encodeCursor couldn't have produced
+ */
+export function decodeCursor(cursor: string): Cursor | null {
+    const [createdAt, id] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+    const date = new Date(createdAt);
+
+    if (!id || isNaN(date.getTime()) || !mongoose.isObjectIdOrHexString(id)) {
+        return null;
+    }
+    return { createdAt: date, id };
+}
+
+/**
+ * Filter for the page after a cursor in a { createdAt: -1, _id: -1 } sort
+ */
+export function cursorFilter(cursor: Cursor): Record<string, any> {
+    return {
+        $or: [
+            { createdAt: { $lt: cursor.createdAt } },
+            { createdAt: cursor.createdAt, _id: { $lt: new mongoose.Types.ObjectId(cursor.id) } }
+        ]
+    };
+}
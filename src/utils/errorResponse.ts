@@ -0,0 +1,18 @@
+import { Request, Response } from 'express';
+
+/**
+ * Error envelope of the request middlewares; the app-level error and 404 handlers use the same shape.
+ * { error: { message, code, status, timestamp, path, details? } }
+ */
+export function sendErrorResponse(req: Request, res: Response, status: number, code: string, message: string, details?: unknown): void {
+    res.status(status).json({
+        error: {
+            message,
+            code,
+            status,
+            timestamp: new Date().toISOString(),
+            path: req.path,
+            ...(details !== undefined && { details })
+        }
+    });
+}
@@ -0,0 +1,93 @@
+export interface LocalTime {
+    year: number;
+    month: number; // 1-12
+    day: number;
+    hour: number;
+    minute: number;
+    weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            weekday: 'short'
+        });
+        formatters.set(timeZone, formatter);
+    }
+    return formatter;
+}
+
+/**
+ * Whether the runtime knows an IANA zone name such as "Asia/Tokyo"
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        getFormatter(timeZone);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Wall-clock fields of an instant in a time zone
+ */
+export function getLocalTime(date: Date, timeZone: string): LocalTime {
+    const parts: Record<string, string> = {};
+    for (const part of getFormatter(timeZone).formatToParts(date)) {
+        parts[part.type] = part.value;
+    }
+
+    return {
+        year: parseInt(parts.year),
+        month: parseInt(parts.month),
+        day: parseInt(parts.day),
+        hour: parseInt(parts.hour),
+        minute: parseInt(parts.minute),
+        weekday: WEEKDAYS.indexOf(parts.weekday)
+    };
+}
+
+/**
+ * The instant a wall-clock time occurs in a time zone. Month and day may overflow (day 32 is the
+ * 1st of next month). A time skipped by a DST jump resolves to the same clock reading after the jump.
+ */
+export function zonedTimeToUtc(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): Date {
+    const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+    const first = wallClock - offsetAt(new Date(wallClock), timeZone);
+    const offset = offsetAt(new Date(first), timeZone);
+    if (wallClock - offset === first) {
+        return new Date(first);
+    }
+
+    // The first guess crossed a DST change; retry with the offset in force there
+    const second = wallClock - offset;
+    if (offsetAt(new Date(second), timeZone) === offset) {
+        return new Date(second);
+    }
+
+    // Neither offset produces this reading, so it falls in a DST gap
+    return new Date(Math.max(first, second));
+}
+
+/**
+ * Milliseconds the zone's wall clock is ahead of UTC at an instant
+ */
+function offsetAt(date: Date, timeZone: string): number {
+    const local = getLocalTime(date, timeZone);
+    const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+    return asUtc - Math.floor(date.getTime() / 60000) * 60000;
+}
@@ -0,0 +1,39 @@
+import crypto from 'crypto';
+
+export const SIGNATURE_HEADER = 'x-webhook-signature';
+export const TIMESTAMP_HEADER = 'x-webhook-timestamp';
+export const NONCE_HEADER = 'x-webhook-nonce';
+
+/**
+ * HMAC-SHA256 over `${timestamp}.${nonce}.${body}`, hex encoded
+ */
+export function computeSignature(secret: string, timestamp: string, nonce: string, body: Buffer | string): string {
+    return crypto
+        .createHmac('sha256', secret)
+        .update(`${timestamp}.${nonce}.`)
+        .update(body)
+        .digest('hex');
+}
+
+/**
+ * Constant-time comparison of two hex signatures
+ */
+export function signaturesMatch(expected: string, received: string): boolean {
+    const a = Buffer.from(expected, 'hex');
+    const b = Buffer.from(received, 'hex');
+    return a.length === b.length && a.length > 0 && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Headers for an outgoing signed request
+ */
+export function buildSignatureHeaders(secret: string, body: string): Record<string, string> {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const nonce = crypto.randomUUID();
+
+    return {
+        [TIMESTAMP_HEADER]: timestamp,
+        [NONCE_HEADER]: nonce,
+        [SIGNATURE_HEADER]: `sha256=${computeSignature(secret, timestamp, nonce, body)}`
+    };
+}
@@ -0,0 +1,319 @@
+import { z } from 'zod';
+import type { BatchStatus } from '../models/batchTracker';
+import { OUTBOUND_WEBHOOK_EVENTS } from '../models/webhookSubscription';
+import { JOB_NAMES, JOB_RUN_STATUSES, JOB_TRIGGERS } from '../models/jobRun';
+import { SCHEDULER_TASKS } from '../models/schedulerTaskSetting';
+import { Cursor, decodeCursor } from '../utils/cursor';
+import { isValidTimeZone } from '../utils/timezone';
+import { validate as isValidCronPattern } from 'node-cron';
+
+const BATCH_STATUSES: [BatchStatus, ...BatchStatus[]] = ['pending', 'partial_complete', 'complete', 'audio_requested', 'audio_complete', 'audio_failed', 'failed'];
+
+// Shared field types
+export const objectId = z.string().trim().regex(/^[0-9a-fA-F]{24}$/, 'Must be a 24 character hex ObjectId');
+export const batchId = z.string().trim().min(1, 'Must not be empty').max(100);
+const nonEmptyString = z.string().trim().min(1, 'Must not be empty');
+
+const dateString = z.string().refine(value => !isNaN(new Date(value).getTime()), 'Must be a valid date').transform(value => new Date(value));
+
+const cursor = z.string().transform((value, ctx): Cursor => {
+    const decoded = decodeCursor(value);
+    if (!decoded) {
+        ctx.addIssue({ code: 'custom', message: 'Invalid cursor' });
+        return z.NEVER;
+    }
+    return decoded;
+});
+
+const categorySelection = z.object({
+    categoryId: objectId,
+    weight: z.number().min(0.1).max(3).optional()
+});
+
+const deliverySlot = z.string().trim().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Must be a 24-hour HH:mm time');
+
+// Bodies are optional on trigger-style routes; clients may post nothing at all
+const noBody = z.object({}).default({});
+
+/**
+ * Request schemas per route, keyed by where each part of the request is read from
+ */
+export const schemas = {
+    // Summary routes
+    generateSummaries: {
+        body: noBody
+    },
+    triggerManualSummary: {
+        body: noBody
+    },
+
+    // Scheduler task administration
+    listSchedulerTasks: {
+        query: z.object({
+            count: z.coerce.number().int().min(1).max(50).default(5)
+        })
+    },
+    schedulerTaskParams: {
+        params: z.object({ task: z.enum(SCHEDULER_TASKS) }),
+        body: noBody
+    },
+    rescheduleSchedulerTask: {
+        params: z.object({ task: z.enum(SCHEDULER_TASKS) }),
+        body: z.object({
+            cronPattern: z.string().trim().refine(isValidCronPattern, 'Must be a valid cron pattern such as "0 */6 * * *"')
+        })
+    },
+    getUserSummary: {
+        params: z.object({ userId: objectId })
+    },
+    generateUserSummary: {
+        params: z.object({ userId: objectId }),
+        body: z.object({
+            batchId: batchId.optional()
+        }).default({})
+    },
+    generateTTS: {
+        body: z.object({
+            summaryId: objectId
+        })
+    },
+
+    // Batch routes
+    listBatches: {
+        query: z.object({
+            page: z.coerce.number().int().min(1).default(1),
+            limit: z.coerce.number().int().min(1).max(100).default(20),
+            status: z.string()
+                .transform(value => value.split(',').map(status => status.trim()))
+                .pipe(z.array(z.enum(BATCH_STATUSES)))
+                .optional(),
+            from: dateString.optional(),
+            to: dateString.optional()
+        })
+    },
+    batchParams: {
+        params: z.object({ batchId })
+    },
+    cancelBatch: {
+        params: z.object({ batchId }),
+        body: z.object({
+            reason: nonEmptyString.max(500).optional()
+        }).default({})
+    },
+
+    // Summary cache
+    invalidateSummaryCache: {
+        query: z.object({
+            key: z.string().trim().regex(/^[0-9a-f]{64}$/, 'Must be a sha256 hex cache key').optional(),
+            articleId: objectId.optional(),
+            provider: z.enum(['gradio', 'openai', 'local']).optional(),
+            all: z.enum(['true', 'false']).transform(value => value === 'true').optional()
+        }).refine(query => query.key || query.articleId || query.provider || query.all, {
+            message: 'Provide key, articleId or provider, or all=true to clear the whole cache',
+            path: ['all']
+        })
+    },
+
+    // Categories
+    listCategories: {
+        query: z.object({
+            isActive: z.enum(['true', 'false']).transform(value => value === 'true').optional()
+        })
+    },
+    categoryParams: {
+        params: z.object({ categoryId: objectId })
+    },
+    createCategory: {
+        body: z.object({
+            name: nonEmptyString.max(100),
+            isActive: z.boolean().default(true),
+            maxAgeHours: z.number().min(1).max(720).optional()
+        })
+    },
+    updateCategory: {
+        params: z.object({ categoryId: objectId }),
+        body: z.object({
+            name: nonEmptyString.max(100).optional(),
+            isActive: z.boolean().optional(),
+            maxAgeHours: z.number().min(1).max(720).nullable().optional() // null restores the default
+        }).refine(body => body.name !== undefined || body.isActive !== undefined || body.maxAgeHours !== undefined, {
+            message: 'Provide name, isActive or maxAgeHours'
+        })
+    },
+    mergeCategory: {
+        params: z.object({ categoryId: objectId }),
+        body: z.object({
+            targetCategoryId: objectId
+        })
+    },
+
+    // User category preferences
+    userPreferences: {
+        params: z.object({ userId: objectId })
+    },
+    replaceUserPreferences: {
+        params: z.object({ userId: objectId }),
+        body: z.object({
+            categories: z.array(categorySelection).max(50)
+        })
+    },
+    addUserPreferences: {
+        params: z.object({ userId: objectId }),
+        body: z.object({
+            categories: z.array(categorySelection).min(1, 'Provide at least one category').max(50)
+        })
+    },
+    removeUserPreference: {
+        params: z.object({ userId: objectId, categoryId: objectId })
+    },
+
+    // User delivery schedule
+    replaceDeliverySchedule: {
+        params: z.object({ userId: objectId }),
+        body: z.object({
+            timezone: z.string().trim().refine(isValidTimeZone, 'Must be an IANA time zone such as Asia/Tokyo'),
+            deliverySlots: z.array(deliverySlot).min(1, 'Provide at least one delivery slot').max(6),
+            isEnabled: z.boolean().default(true)
+        })
+    },
+
+    // User mixes
+    listUserMixes: {
+        params: z.object({ userId: objectId }),
+        query: z.object({
+            limit: z.coerce.number().int().min(1).max(100).default(20),
+            cursor: cursor.optional(),
+            mixType: z.string()
+                .transform(value => value.split(',').map(mixType => mixType.trim()))
+                .pipe(z.array(z.enum(['morning', 'afternoon', 'evening', 'night'])))
+                .optional(),
+            from: dateString.optional(),
+            to: dateString.optional()
+        })
+    },
+    getMix: {
+        params: z.object({ mixId: objectId })
+    },
+
+    // Job run history
+    listJobRuns: {
+        query: z.object({
+            limit: z.coerce.number().int().min(1).max(100).default(20),
+            cursor: cursor.optional(),
+            job: z.string()
+                .transform(value => value.split(',').map(job => job.trim()))
+                .pipe(z.array(z.enum(JOB_NAMES)))
+                .optional(),
+            status: z.string()
+                .transform(value => value.split(',').map(status => status.trim()))
+                .pipe(z.array(z.enum(JOB_RUN_STATUSES)))
+                .optional(),
+            trigger: z.enum(JOB_TRIGGERS).optional(),
+            from: dateString.optional(),
+            to: dateString.optional()
+        })
+    },
+    jobRunParams: {
+        params: z.object({ jobRunId: objectId })
+    },
+
+    // Outbound webhook subscriptions
+    createWebhookSubscription: {
+        body: z.object({
+            name: nonEmptyString.max(100),
+            url: z.url({ protocol: /^https?$/ }),
+            events: z.array(z.enum(OUTBOUND_WEBHOOK_EVENTS)).min(1, 'Subscribe to at least one event'),
+            secret: z.string().min(16, 'Must be at least 16 characters').optional(),
+            description: z.string().trim().max(500).optional(),
+            isActive: z.boolean().default(true)
+        })
+    },
+    updateWebhookSubscription: {
+        params: z.object({ subscriptionId: objectId }),
+        body: z.object({
+            name: nonEmptyString.max(100).optional(),
+            url: z.url({ protocol: /^https?$/ }).optional(),
+            events: z.array(z.enum(OUTBOUND_WEBHOOK_EVENTS)).min(1, 'Subscribe to at least one event').optional(),
+            secret: z.string().min(16, 'Must be at least 16 characters').optional(),
+            description: z.string().trim().max(500).optional(),
+            isActive: z.boolean().optional()
+        })
+    },
+    webhookSubscriptionParams: {
+        params: z.object({ subscriptionId: objectId })
+    },
+    listWebhookDeliveries: {
+        params: z.object({ subscriptionId: objectId }),
+        query: z.object({
+            page: z.coerce.number().int().min(1).default(1),
+            limit: z.coerce.number().int().min(1).max(100).default(20),
+            status: z.enum(['pending', 'sending', 'retrying', 'delivered', 'failed']).optional(),
+            event: z.enum(OUTBOUND_WEBHOOK_EVENTS).optional()
+        })
+    },
+    redeliverWebhook: {
+        params: z.object({ deliveryId: objectId })
+    },
+
+    // Inbound webhooks
+    summaryWebhook: {
+        body: z.object({
+            summary: nonEmptyString,
+            userId: objectId,
+            summaryType: z.enum(['user', 'category']).default('user'),
+            summaryTitle: nonEmptyString.max(200).optional(),
+            batchId: batchId.optional()
+        })
+    },
+    saveAudioUrl: {
+        body: z.object({
+            audioUrl: z.url(),
+            userId: objectId,
+            batchId: batchId.optional(),
+            summaryId: objectId.optional()
+        }).refine(body => body.summaryId || body.batchId, {
+            message: 'Either summaryId or batchId must be provided',
+            path: ['summaryId']
+        })
+    },
+    audioGenerationFailure: {
+        body: z.object({
+            batchId,
+            errorMessage: nonEmptyString.max(2000),
+            userId: objectId,
+            summaryId: objectId.optional()
+        })
+    }
+};
+
+// DTOs derived from the schemas above
+export type UserParams = z.infer<typeof schemas.getUserSummary.params>;
+export type GenerateUserSummaryBody = z.infer<typeof schemas.generateUserSummary.body>;
+export type GenerateTtsBody = z.infer<typeof schemas.generateTTS.body>;
+export type ListSchedulerTasksQuery = z.infer<typeof schemas.listSchedulerTasks.query>;
+export type SchedulerTaskParams = z.infer<typeof schemas.schedulerTaskParams.params>;
+export type RescheduleSchedulerTaskBody = z.infer<typeof schemas.rescheduleSchedulerTask.body>;
+export type ListBatchesQuery = z.infer<typeof schemas.listBatches.query>;
+export type BatchParams = z.infer<typeof schemas.batchParams.params>;
+export type CancelBatchBody = z.infer<typeof schemas.cancelBatch.body>;
+export type InvalidateSummaryCacheQuery = z.infer<typeof schemas.invalidateSummaryCache.query>;
+export type ListCategoriesQuery = z.infer<typeof schemas.listCategories.query>;
+export type CategoryParams = z.infer<typeof schemas.categoryParams.params>;
+export type CreateCategoryBody = z.infer<typeof schemas.createCategory.body>;
+export type UpdateCategoryBody = z.infer<typeof schemas.updateCategory.body>;
+export type MergeCategoryBody = z.infer<typeof schemas.mergeCategory.body>;
+export type CategorySelectionBody = z.infer<typeof schemas.replaceUserPreferences.body>;
+export type UserCategoryParams = z.infer<typeof schemas.removeUserPreference.params>;
+export type DeliveryScheduleBody = z.infer<typeof schemas.replaceDeliverySchedule.body>;
+export type ListUserMixesQuery = z.infer<typeof schemas.listUserMixes.query>;
+export type MixParams = z.infer<typeof schemas.getMix.params>;
+export type ListJobRunsQuery = z.infer<typeof schemas.listJobRuns.query>;
+export type JobRunParams = z.infer<typeof schemas.jobRunParams.params>;
+export type CreateWebhookSubscriptionBody = z.infer<typeof schemas.createWebhookSubscription.body>;
+export type UpdateWebhookSubscriptionBody = z.infer<typeof schemas.updateWebhookSubscription.body>;
+export type WebhookSubscriptionParams = z.infer<typeof schemas.webhookSubscriptionParams.params>;
+export type ListWebhookDeliveriesQuery = z.infer<typeof schemas.listWebhookDeliveries.query>;
+export type RedeliverWebhookParams = z.infer<typeof schemas.redeliverWebhook.params>;
+export type SummaryWebhookBody = z.infer<typeof schemas.summaryWebhook.body>;
+export type SaveAudioUrlBody = z.infer<typeof schemas.saveAudioUrl.body>;
+export type AudioGenerationFailureBody = z.infer<typeof schemas.audioGenerationFailure.body>;
@@ -0,0 +1,57 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { ArticleBudgetService, BudgetCategory } from '../src/services/articleBudgetService';
+
+const words = (count: number, word = 'word') => Array.from({ length: count }, () => word).join(' ');
+
+function category(categoryId: string, articleCount: number, weight = 1): BudgetCategory {
+    return {
+        categoryId,
+        weight,
+        candidates: Array.from({ length: articleCount }, (_, index) => ({
+            score: articleCount - index,
+            selected: true,
+            article: { title: words(12, 'headline'), fullText: words(400) }
+        }))
+    };
+}
+
+function serviceWithBudget(wordBudget: number): ArticleBudgetService {
+    process.env.SUMMARY_INPUT_WORD_BUDGET = String(wordBudget);
+    return new ArticleBudgetService();
+}
+
+describe('ArticleBudgetService.pack', () => {
+    afterEach(() => {
+        delete process.env.SUMMARY_INPUT_WORD_BUDGET;
+    });
+
+    it('keeps one article per category within a budget too small for the usual minimums', () => {
+        const categories = Array.from({ length: 20 }, (_, index) => category(`c${index}`, 3));
+        const plan = serviceWithBudget(100).pack(categories);
+
+        assert.ok(plan.wordsUsed <= 100, `used ${plan.wordsUsed} of 100 words`);
+        for (const entry of categories) {
+            assert.equal(entry.candidates.filter(candidate => candidate.selected).length, 1);
+        }
+    });
+
+    it('shares a roomy budget by weight with full titles', () => {
+        const heavy = category('heavy', 5, 3);
+        const light = category('light', 5, 1);
+        const plan = serviceWithBudget(1000).pack([heavy, light]);
+
+        assert.ok(plan.wordsUsed <= 1000);
+        const [heavyPlan, lightPlan] = plan.categories;
+        assert.ok(heavyPlan.wordShare > lightPlan.wordShare);
+        assert.ok(heavyPlan.articleCount >= lightPlan.articleCount);
+        assert.equal(heavy.candidates[0].titleAllowance, 20);
+    });
+
+    it('never reports more words used than the budget for any category count', () => {
+        for (const count of [1, 2, 5, 10, 33, 50]) {
+            const plan = serviceWithBudget(100).pack(Array.from({ length: count }, (_, index) => category(`c${index}`, 2)));
+            assert.ok(plan.wordsUsed <= 100, `${count} categories used ${plan.wordsUsed} words`);
+        }
+    });
+});
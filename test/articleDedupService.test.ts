@@ -0,0 +1,124 @@
+import { describe, it, mock, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { ArticleDedupService } from '../src/services/articleDedupService';
+import NewsArticle from '../src/models/newsArticles';
+
+const words = (prefix: string, from: number, to: number) =>
+    Array.from({ length: to - from }, (_, index) => `${prefix}${from + index}`).join(' ');
+
+// 200 distinct words, a copy with five of them reworded, and a text sharing only its first half
+const original = words('w', 0, 200);
+const nearDuplicate = original.replace(/\bw(40|80|120|160|199)\b/g, 'changed');
+const halfShared = `${words('w', 0, 100)} ${words('x', 0, 100)}`;
+
+describe('ArticleDedupService.normalizeUrl', () => {
+    afterEach(() => {
+        delete process.env.DEDUP_TRACKING_PARAMS;
+    });
+
+    it('maps the same story behind tracking params, hosts, amp paths and fragments to one key', () => {
+        const service = new ArticleDedupService();
+        const canonical = service.normalizeUrl('https://example.com/news/story');
+
+        assert.equal(service.normalizeUrl('http://www.example.com/news/story/?utm_source=rss&utm_medium=feed#comments'), canonical);
+        assert.equal(service.normalizeUrl('https://amp.example.com/news/story/amp/?fbclid=abc&gclid=def'), canonical);
+        assert.equal(service.normalizeUrl('https://m.Example.com:8443//news/story?mc_cid=1&mc_eid=2&igshid=3'), canonical);
+    });
+
+    it('keeps and sorts parameters that may identify the article', () => {
+        const service = new ArticleDedupService();
+
+        assert.equal(service.normalizeUrl('https://example.com/view?id=7&cid=42&ref=home'), 'https://example.com/view?cid=42&id=7&ref=home');
+        assert.notEqual(service.normalizeUrl('https://example.com/view?cid=1'), service.normalizeUrl('https://example.com/view?cid=2'));
+        assert.notEqual(service.normalizeUrl('https://example.com/rss?feed=world'), service.normalizeUrl('https://example.com/rss?feed=sport'));
+    });
+
+    it('strips extra tracking parameters configured for a feed or through the environment', () => {
+        process.env.DEDUP_TRACKING_PARAMS = 'ncid, OCID';
+        const service = new ArticleDedupService();
+
+        assert.equal(service.normalizeUrl('https://example.com/a?ncid=x&ocid=y&id=1'), 'https://example.com/a?id=1');
+        assert.equal(service.normalizeUrl('https://example.com/a?ref=rss&id=1', ['ref']), 'https://example.com/a?id=1');
+        assert.equal(service.normalizeUrl('https://example.com/a?ref=rss&id=1'), 'https://example.com/a?id=1&ref=rss');
+    });
+});
+
+describe('ArticleDedupService MinHash similarity', () => {
+    const service = new ArticleDedupService();
+
+    it('scores identical text 1 and a lightly edited copy above the default threshold', () => {
+        const signature = service.computeSignature('Title', original);
+
+        assert.equal(service.estimateSimilarity(signature, service.computeSignature('Title', original)), 1);
+        assert.ok(service.estimateSimilarity(signature, service.computeSignature('Title', nearDuplicate)) >= 0.5);
+    });
+
+    it('scores text sharing only half its words below the default threshold', () => {
+        const similarity = service.estimateSimilarity(service.computeSignature('Title', original), service.computeSignature('Title', halfShared));
+        assert.ok(similarity < 0.5, `similarity ${similarity}`);
+    });
+
+    it('puts near-duplicates in a shared LSH band', () => {
+        const bands = new Set(service.computeBands(service.computeSignature('Title', original)));
+        assert.ok(service.computeBands(service.computeSignature('Title', nearDuplicate)).some(band => bands.has(band)));
+    });
+
+    it('gives no signature to text shorter than one shingle', () => {
+        assert.equal(service.computeSignature('', 'two words'), null);
+    });
+});
+
+describe('ArticleDedupService.clusterPendingArticles', () => {
+    afterEach(() => {
+        mock.restoreAll();
+        delete process.env.DEDUP_SIMILARITY_THRESHOLD;
+    });
+
+    function stubArticles(pendingText: string, candidates: any[]): any[] {
+        const updates: any[] = [];
+        const pending = { _id: 'new-article', title: 'Title', fullText: pendingText, publishedAt: new Date() };
+
+        mock.method(NewsArticle, 'find', (filter: any) => filter.lshBands
+            ? { select: () => ({ lean: async () => candidates }) }
+            : { sort: () => ({ limit: () => ({ lean: async () => [pending] }) }) });
+        mock.method(NewsArticle, 'updateOne', async (filter: any, update: any) => {
+            updates.push(update);
+            return { matchedCount: 1 };
+        });
+        return updates;
+    }
+
+    function candidate(service: ArticleDedupService, text: string, storyClusterId: string) {
+        return { _id: storyClusterId, storyClusterId, minHashSignature: service.computeSignature('Title', text) };
+    }
+
+    it('joins the story of a candidate above the threshold', async () => {
+        const service = new ArticleDedupService();
+        const updates = stubArticles(nearDuplicate, [candidate(service, halfShared, 'other-story'), candidate(service, original, 'same-story')]);
+
+        const counts = await service.clusterPendingArticles();
+
+        assert.deepEqual(counts, { clustered: 1, joined: 1 });
+        assert.equal(updates[0].storyClusterId, 'same-story');
+    });
+
+    it('starts its own story when every candidate is below the threshold', async () => {
+        const service = new ArticleDedupService();
+        const updates = stubArticles(original, [candidate(service, halfShared, 'other-story')]);
+
+        const counts = await service.clusterPendingArticles();
+
+        assert.deepEqual(counts, { clustered: 1, joined: 0 });
+        assert.equal(updates[0].storyClusterId, 'new-article');
+    });
+
+    it('honours a lower DEDUP_SIMILARITY_THRESHOLD', async () => {
+        process.env.DEDUP_SIMILARITY_THRESHOLD = '0.1';
+        const service = new ArticleDedupService();
+        const updates = stubArticles(original, [candidate(service, halfShared, 'other-story')]);
+
+        await service.clusterPendingArticles();
+
+        assert.equal(updates[0].storyClusterId, 'other-story');
+    });
+});
@@ -0,0 +1,86 @@
+import { describe, it, mock, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { ArticleExtractionService } from '../src/services/articleExtractionService';
+import NewsArticle from '../src/models/newsArticles';
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, 'fixtures', 'extraction', name), 'utf8');
+
+describe('ArticleExtractionService.extractFromHtml', () => {
+    const service = new ArticleExtractionService();
+
+    it('uses the domain rule for a known publisher', () => {
+        const result = service.extractFromHtml(fixture('bbc-domain-rule.html'), 'https://www.bbc.com/news/articles/tram-line');
+
+        assert.ok(result);
+        assert.equal(result.method, 'domain_rule');
+        assert.match(result.text, /^The city council has voted/);
+        assert.match(result.text, /deliveries will still be possible/);
+        // Byline, removed links block and related stories sit outside the text blocks
+        assert.doesNotMatch(result.text, /Jane Reporter|Bus fares|More from the region/);
+        assert.equal(result.text.split('\n\n').length, 3);
+    });
+
+    it('falls back to the heuristic for an unknown domain', () => {
+        const result = service.extractFromHtml(fixture('blog-heuristic.html'), 'https://slowkitchen.example/sourdough');
+
+        assert.ok(result);
+        assert.equal(result.method, 'heuristic');
+        assert.match(result.text, /Sourdough is not a recipe/);
+        assert.match(result.text, /full of flavour/);
+        assert.doesNotMatch(result.text, /newsletter|Great post|Share on social/);
+        assert.ok(result.wordCount >= 80);
+    });
+
+    it('returns null when the page has too little prose', () => {
+        assert.equal(service.extractFromHtml(fixture('paywall-fallback.html'), 'https://times.example/markets'), null);
+    });
+});
+
+describe('ArticleExtractionService.extractArticle', () => {
+    afterEach(() => mock.restoreAll());
+
+    function serviceServing(html: string): ArticleExtractionService {
+        const service = new ArticleExtractionService();
+        mock.method(service as any, 'fetchHtml', async () => html);
+        return service;
+    }
+
+    it('stores the extracted text', async () => {
+        const updateOne = mock.method(NewsArticle, 'updateOne', async () => ({}));
+        const service = serviceServing(fixture('blog-heuristic.html'));
+
+        const status = await service.extractArticle({ _id: 'a1', url: 'https://slowkitchen.example/sourdough', description: 'Teaser' });
+
+        assert.equal(status, 'extracted');
+        const update = updateOne.mock.calls[0].arguments[1] as any;
+        assert.equal(update.extractionStatus, 'extracted');
+        assert.match(update.fullText, /Sourdough is not a recipe/);
+    });
+
+    it('keeps the feed description when extraction finds too little', async () => {
+        const updateOne = mock.method(NewsArticle, 'updateOne', async () => ({}));
+        const service = serviceServing(fixture('paywall-fallback.html'));
+
+        const description = 'Stocks rose sharply on Tuesday after new figures showed prices climbing more slowly.';
+        const status = await service.extractArticle({ _id: 'a2', url: 'https://times.example/markets', description });
+
+        assert.equal(status, 'fallback');
+        const update = updateOne.mock.calls[0].arguments[1] as any;
+        assert.equal(update.extractionStatus, 'fallback');
+        assert.equal(update.fullText, description);
+    });
+
+    it('marks the article failed when there is no description to fall back on', async () => {
+        const updateOne = mock.method(NewsArticle, 'updateOne', async () => ({}));
+        const service = serviceServing(fixture('paywall-fallback.html'));
+
+        const status = await service.extractArticle({ _id: 'a3', url: 'https://times.example/markets' });
+
+        assert.equal(status, 'failed');
+        const update = updateOne.mock.calls[0].arguments[1] as any;
+        assert.equal(update.extractionStatus, 'failed');
+        assert.equal(update.fullText, undefined);
+    });
+});
@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DeliveryScheduleService } from '../src/services/deliveryScheduleService';
+import { zonedTimeToUtc } from '../src/utils/timezone';
+
+describe('zonedTimeToUtc', () => {
+    it('converts a wall-clock time with the offset in force on that date', () => {
+        assert.equal(zonedTimeToUtc(2026, 10, 19, 7, 0, 'Asia/Tokyo').toISOString(), '2026-10-18T22:00:00.000Z');
+        assert.equal(zonedTimeToUtc(2026, 1, 15, 9, 0, 'America/New_York').toISOString(), '2026-01-15T14:00:00.000Z');
+        assert.equal(zonedTimeToUtc(2026, 7, 15, 9, 0, 'America/New_York').toISOString(), '2026-07-15T13:00:00.000Z');
+    });
+
+    it('rolls an overflowing day into the next month', () => {
+        assert.equal(zonedTimeToUtc(2026, 1, 32, 12, 0, 'UTC').toISOString(), '2026-02-01T12:00:00.000Z');
+    });
+
+    it('resolves a time skipped by spring-forward to the same reading after the jump', () => {
+        // 02:30 doesn't exist in New York on 8 March 2026; clocks go from 02:00 EST to 03:00 EDT
+        assert.equal(zonedTimeToUtc(2026, 3, 8, 2, 30, 'America/New_York').toISOString(), '2026-03-08T07:30:00.000Z');
+    });
+
+    it('resolves a time repeated by fall-back to its first occurrence', () => {
+        // 01:30 happens twice in New York on 1 November 2026, first in EDT
+        assert.equal(zonedTimeToUtc(2026, 11, 1, 1, 30, 'America/New_York').toISOString(), '2026-11-01T05:30:00.000Z');
+    });
+});
+
+describe('DeliveryScheduleService.nextSlotAfter', () => {
+    const service = new DeliveryScheduleService();
+
+    it('picks the next slot later the same local day', () => {
+        const next = service.nextSlotAfter(['18:30', '07:00'], 'Asia/Tokyo', new Date('2026-10-19T00:00:00Z'));
+        assert.equal(next?.toISOString(), '2026-10-19T09:30:00.000Z');
+    });
+
+    it('moves on to the next local day once the last slot has passed', () => {
+        const next = service.nextSlotAfter(['07:00', '18:30'], 'Asia/Tokyo', new Date('2026-10-19T10:00:00Z'));
+        assert.equal(next?.toISOString(), '2026-10-19T22:00:00.000Z');
+    });
+
+    it('is strictly after the given instant', () => {
+        const next = service.nextSlotAfter(['07:00', '18:30'], 'Asia/Tokyo', new Date('2026-10-19T09:30:00Z'));
+        assert.equal(next?.toISOString(), '2026-10-19T22:00:00.000Z');
+    });
+
+    it('keeps the local slot across a DST change', () => {
+        const beforeChange = service.nextSlotAfter(['07:00'], 'America/New_York', new Date('2026-03-07T13:00:00Z'));
+        const afterChange = service.nextSlotAfter(['07:00'], 'America/New_York', beforeChange);
+
+        assert.equal(beforeChange?.toISOString(), '2026-03-08T11:00:00.000Z');
+        assert.equal(afterChange?.toISOString(), '2026-03-09T11:00:00.000Z');
+    });
+
+    it('delivers a slot skipped by spring-forward just after the jump', () => {
+        const next = service.nextSlotAfter(['02:30'], 'America/New_York', new Date('2026-03-08T05:00:00Z'));
+        assert.equal(next?.toISOString(), '2026-03-08T07:30:00.000Z');
+    });
+
+    it('returns null without slots', () => {
+        assert.equal(service.nextSlotAfter([], 'UTC', new Date()), null);
+    });
+});
@@ -0,0 +1,84 @@
+import { describe, it, mock, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { verifyWebhookSignature } from '../src/middleware/verifyWebhookSignature';
+import WebhookNonce from '../src/models/webhookNonce';
+import { computeSignature, SIGNATURE_HEADER, TIMESTAMP_HEADER, NONCE_HEADER } from '../src/utils/webhookSigning';
+
+const SECRET = 'test-secret-0123456789';
+
+function signedRequest(body: string, nonce: string, extraHeaders: Record<string, string> = {}) {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const headers: Record<string, string> = {
+        [TIMESTAMP_HEADER]: timestamp,
+        [NONCE_HEADER]: nonce,
+        [SIGNATURE_HEADER]: `sha256=${computeSignature(SECRET, timestamp, nonce, body)}`,
+        ...extraHeaders
+    };
+
+    return {
+        method: 'POST',
+        originalUrl: '/noais/webhooks/summary',
+        path: '/summary',
+        rawBody: Buffer.from(body),
+        get: (name: string) => headers[name.toLowerCase()]
+    } as any;
+}
+
+async function run(req: any): Promise<{ passed: boolean; status?: number; body?: any }> {
+    const outcome: { passed: boolean; status?: number; body?: any } = { passed: false };
+    const res: any = {
+        status(code: number) { outcome.status = code; return res; },
+        json(body: any) { outcome.body = body; return res; }
+    };
+
+    await verifyWebhookSignature(req, res, (error?: any) => {
+        if (error) throw error;
+        outcome.passed = true;
+    });
+    return outcome;
+}
+
+describe('verifyWebhookSignature nonce handling', () => {
+    let nonces: Map<string, any>;
+
+    beforeEach(() => {
+        process.env.WEBHOOK_SECRETS = SECRET;
+        nonces = new Map();
+
+        mock.method(WebhookNonce, 'create', async (doc: any) => {
+            if (nonces.has(doc.nonce)) {
+                throw Object.assign(new Error('duplicate key'), { code: 11000 });
+            }
+            nonces.set(doc.nonce, doc);
+            return doc;
+        });
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+        delete process.env.WEBHOOK_SECRETS;
+    });
+
+    it('accepts a first delivery', async () => {
+        const result = await run(signedRequest('{"summary":"a"}', 'nonce-1'));
+        assert.equal(result.passed, true);
+    });
+
+    it('rejects a byte-identical resend of a used nonce', async () => {
+        const body = '{"summary":"a"}';
+        await run(signedRequest(body, 'nonce-2', { 'idempotency-key': 'delivery-2' }));
+
+        const replay = await run(signedRequest(body, 'nonce-2', { 'idempotency-key': 'delivery-2' }));
+        assert.equal(replay.passed, false);
+        assert.equal(replay.status, 401);
+        assert.equal(replay.body.error.code, 'replayed_nonce');
+    });
+
+    it('accepts a retry signed with a fresh nonce', async () => {
+        const body = '{"summary":"a"}';
+        await run(signedRequest(body, 'nonce-3', { 'idempotency-key': 'delivery-3' }));
+
+        const retry = await run(signedRequest(body, 'nonce-4', { 'idempotency-key': 'delivery-3' }));
+        assert.equal(retry.passed, true);
+    });
+});